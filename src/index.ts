@@ -1,13 +1,41 @@
 import { assert } from "console";
-import minimist from "minimist";
+import fs from "fs";
+import path from "path";
+import tty from "tty";
 
-type Parse<S> = S extends `${string}:${infer Type}`
-  ? ParseFromType<Type>
+export type CustomType<T> = {
+  parse: (value: string) => T;
+};
+type CustomTypes = Record<string, CustomType<unknown>>;
+
+type Parse<
+  S,
+  U extends CustomTypes = {}
+> = StripMarkers<S> extends `${string}:${infer Type}`
+  ? ParseFromType<Type, U>
   : never;
-type ParseFromType<S> = S extends ` ${infer Rest}`
-  ? ParseFromType<Rest>
+// strips "(hidden)" and "(deprecated: ...)", the hint of which may contain ":"
+type StripMarkers<S> = S extends `${infer Names}(${infer Marker})${infer Next}`
+  ? TrimStart<Marker> extends `hidden${string}` | `deprecated${string}`
+    ? `${Names}${StripMarkers<Next>}`
+    : S
+  : S;
+type ParseFromType<S, U extends CustomTypes = {}> = S extends ` ${infer Rest}`
+  ? ParseFromType<Rest, U>
+  : S extends `"${string}`
+  ? ParseChoices<S, never> extends [infer T, infer Next]
+    ? ParseAfterType<T, Next>
+    : never
+  : S extends `(${infer Inner}`
+  ? ParseChoices<Inner, never> extends [infer T, `${infer Next}`]
+    ? ParseAfterChoices<T, Next>
+    : never
+  : S extends `Record${infer Next}`
+  ? ParseRecord<Next>
   : S extends `boolean${infer Next}`
   ? boolean
+  : S extends `count${infer Next}`
+  ? number
   : S extends `number[]${infer Next}`
   ? number[]
   : S extends `number${infer Next}`
@@ -16,77 +44,622 @@ type ParseFromType<S> = S extends ` ${infer Rest}`
   ? string[]
   : S extends `string${infer Next}`
   ? ParseAfterType<string, Next>
+  : ParseCustomType<S, U>;
+type ParseRecord<S> = TrimStart<S> extends `<${infer Inner}>${string}`
+  ? Inner extends `${string},${infer Value}`
+    ? TrimStart<TrimEnd<Value>> extends "number"
+      ? Record<string, number>
+      : Record<string, string>
+    : never
   : never;
+type ParseCustomType<S, U extends CustomTypes> = {
+  [K in Extract<keyof U, string>]: S extends `${K}${infer Next}`
+    ? ParseAfterCustomType<ReturnType<U[K]["parse"]>, Next>
+    : never;
+}[Extract<keyof U, string>];
+type ParseAfterCustomType<T, S> = S extends `[]${string}`
+  ? T[]
+  : S extends `${IdentifierChar}${string}`
+  ? never
+  : ParseAfterType<T, S>;
+// prettier-ignore
+type IdentifierChar =
+  | "a" | "b" | "c" | "d" | "e" | "f" | "g" | "h" | "i" | "j" | "k" | "l" | "m"
+  | "n" | "o" | "p" | "q" | "r" | "s" | "t" | "u" | "v" | "w" | "x" | "y" | "z"
+  | "A" | "B" | "C" | "D" | "E" | "F" | "G" | "H" | "I" | "J" | "K" | "L" | "M"
+  | "N" | "O" | "P" | "Q" | "R" | "S" | "T" | "U" | "V" | "W" | "X" | "Y" | "Z"
+  | "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9" | "_";
 type ParseAfterType<T, S> = S extends ` ${infer Rest}`
+  ? ParseAfterType<T, Rest>
+  : S extends `{${string}}${infer Rest}`
   ? ParseAfterType<T, Rest>
   : S extends `=${string}`
   ? T
   : S extends `!${string}`
   ? T
   : Optional<T>;
+type ParseChoices<S, Choices> = S extends ` ${infer Rest}`
+  ? ParseChoices<Rest, Choices>
+  : S extends `"${infer Choice}"${infer Rest}`
+  ? ParseChoicesAfterChoice<Rest, Choices | Choice>
+  : never;
+type ParseChoicesAfterChoice<S, Choices> = S extends ` ${infer Rest}`
+  ? ParseChoicesAfterChoice<Rest, Choices>
+  : S extends `|${infer Rest}`
+  ? ParseChoices<Rest, Choices>
+  : [Choices, S];
+type ParseAfterChoices<T, S> = S extends ` ${infer Rest}`
+  ? ParseAfterChoices<T, Rest>
+  : S extends `)${infer Rest}`
+  ? ParseAfterChoices<T, Rest>
+  : S extends `[${string}`
+  ? T[]
+  : never;
 type Optional<T> = T extends boolean ? boolean : T | null;
+type TrimStart<S> = S extends ` ${infer Rest}` ? TrimStart<Rest> : S;
+type TrimEnd<S> = S extends `${infer Rest} ` ? TrimEnd<Rest> : S;
+type AlphanumericChar = Exclude<IdentifierChar, "_">;
+type TakeIdentifier<S> = S extends `${infer C}${infer Rest}`
+  ? C extends IdentifierChar
+    ? `${C}${TakeIdentifier<Rest>}`
+    : ""
+  : "";
+type DefinitionError<
+  S,
+  Reason extends string
+> = `Invalid definition (${Reason}): ${S & string}`;
+type Before<S, C extends string> = S extends `${infer A}${C}${string}` ? A : S;
+type NameOf<S> = Before<Before<Before<S, ":">, ",">, "(">;
+type NameChar = AlphanumericChar | "-";
+// checks 4 characters at a time to keep the instantiation shallow
+type IsName<
+  S
+> = S extends `${infer A}${infer B}${infer C}${infer D}${infer Rest}`
+  ? [A, B, C, D] extends [NameChar, NameChar, NameChar, NameChar]
+    ? IsName<Rest>
+    : false
+  : S extends `${infer C}${infer Rest}`
+  ? C extends NameChar
+    ? IsName<Rest>
+    : false
+  : true;
+type CheckDefinition<S, U extends CustomTypes> = S extends string
+  ? string extends S
+    ? true
+    : CheckNames<TrimStart<S>, S, false> extends [infer Result, infer Type]
+    ? Result extends true
+      ? CheckType<TrimStart<Type>, S, U>
+      : Result
+    : never
+  : never;
+// returns [true, the rest after ":"] or [error, never]
+type CheckNames<S, D, HasLong> = S extends `--${infer Rest}`
+  ? TrimEnd<NameOf<Rest>> extends ""
+    ? [DefinitionError<D, "missing long name">, never]
+    : TrimEnd<NameOf<Rest>> extends
+        | `-${string}`
+        | `${string}-`
+        | `${string}--${string}`
+    ? [
+        DefinitionError<D, `invalid long name '--${TrimEnd<NameOf<Rest>>}'`>,
+        never
+      ]
+    : IsName<TrimEnd<NameOf<Rest>>> extends false
+    ? [
+        DefinitionError<D, `invalid long name '--${TrimEnd<NameOf<Rest>>}'`>,
+        never
+      ]
+    : Rest extends `${NameOf<Rest>}${infer Next}`
+    ? Next extends ""
+      ? [DefinitionError<D, "missing type">, never]
+      : CheckMarker<Next, D, true>
+    : never
+  : S extends `-${infer C}${infer Rest}`
+  ? C extends AlphanumericChar
+    ? TrimStart<Rest> extends `${"," | "(" | ":"}${string}`
+      ? CheckMarker<TrimStart<Rest>, D, HasLong>
+      : [DefinitionError<D, "expected ',' after short name">, never]
+    : [DefinitionError<D, `invalid short name '-${C}'`>, never]
+  : [DefinitionError<D, "missing long name">, never];
+type CheckMarker<S, D, HasLong> = S extends `(${infer Inner})${infer Next}`
+  ? TrimStart<TrimEnd<Inner>> extends "hidden"
+    ? CheckAfterName<TrimStart<Next>, D, HasLong>
+    : TrimStart<Inner> extends `deprecated${infer Hint}`
+    ? TrimStart<Hint> extends "" | `:${string}`
+      ? CheckAfterName<TrimStart<Next>, D, HasLong>
+      : [DefinitionError<D, `unknown marker '(${Inner})'`>, never]
+    : [DefinitionError<D, `unknown marker '(${Inner})'`>, never]
+  : CheckAfterName<S, D, HasLong>;
+type CheckAfterName<S, D, HasLong> = S extends `,${infer Next}`
+  ? CheckNames<TrimStart<Next>, D, HasLong>
+  : S extends `:${infer Type}`
+  ? HasLong extends true
+    ? [true, Type]
+    : [DefinitionError<D, "missing long name">, never]
+  : [DefinitionError<D, "missing type">, never];
+type CheckType<S, D, U extends CustomTypes> = S extends `"${string}`
+  ? ParseChoices<S, never> extends [infer T, infer Next]
+    ? CheckAfterType<Next, "choices", T, D>
+    : DefinitionError<D, "invalid choices">
+  : S extends `(${infer Inner}`
+  ? ParseChoices<Inner, never> extends [infer T, infer Next]
+    ? TrimStart<Next> extends `)${infer Next}`
+      ? CheckArray<TrimStart<Next>, "choices[]", T, D>
+      : DefinitionError<D, "expected ')' after choices">
+    : DefinitionError<D, "invalid choices">
+  : S extends `Record${infer Next}`
+  ? CheckRecord<TrimStart<Next>, D>
+  : TakeIdentifier<S> extends ""
+  ? DefinitionError<D, "missing type">
+  : S extends `${TakeIdentifier<S>}${infer Next}`
+  ? TakeIdentifier<S> extends "boolean" | "count"
+    ? TrimStart<Next> extends `[${string}`
+      ? DefinitionError<D, `${TakeIdentifier<S>} cannot be an array`>
+      : CheckAfterType<Next, TakeIdentifier<S>, never, D>
+    : TakeIdentifier<S> extends "number" | "string" | Extract<keyof U, string>
+    ? TrimStart<Next> extends `[${string}`
+      ? CheckArray<
+          TrimStart<Next>,
+          TakeIdentifier<S> extends "number" | "string"
+            ? `${TakeIdentifier<S>}[]`
+            : "custom[]",
+          never,
+          D
+        >
+      : CheckAfterType<
+          Next,
+          TakeIdentifier<S> extends "number" | "string"
+            ? TakeIdentifier<S>
+            : "custom",
+          never,
+          D
+        >
+    : DefinitionError<D, `unknown type '${TakeIdentifier<S>}'`>
+  : never;
+type CheckRecord<S, D> = S extends `<${infer Inner}>${infer Next}`
+  ? Inner extends `${infer Key},${infer Value}`
+    ? TrimStart<TrimEnd<Key>> extends "string"
+      ? TrimStart<TrimEnd<Value>> extends "string" | "number"
+        ? CheckAfterType<
+            Next,
+            `Record<string,${TrimStart<TrimEnd<Value>> & string}>`,
+            never,
+            D
+          >
+        : DefinitionError<D, "value type of Record should be string or number">
+      : DefinitionError<D, "key type of Record should be string">
+    : DefinitionError<
+        D,
+        "expected 'Record<string,string>' or 'Record<string,number>'"
+      >
+  : DefinitionError<
+      D,
+      "expected 'Record<string,string>' or 'Record<string,number>'"
+    >;
+type CheckArray<S, Kind, Choices, D> = S extends `[${infer Next}`
+  ? TrimStart<Next> extends `]${infer Next}`
+    ? CheckAfterType<Next, Kind, Choices, D>
+    : DefinitionError<D, "expected ']'">
+  : DefinitionError<D, "expected '[]' after choices">;
+type CheckAfterType<S, Kind, Choices, D> = TrimStart<S> extends `{${infer Next}`
+  ? CheckConstraints<Next, Kind, Choices, D>
+  : CheckRequiredOrDefault<TrimStart<S>, Kind, Choices, D>;
+// "}" may appear in a pattern, so every "}" is tried until the rest is valid
+type CheckConstraints<
+  S,
+  Kind,
+  Choices,
+  D,
+  First = never
+> = S extends `${string}}${infer Next}`
+  ? CheckRequiredOrDefault<TrimStart<Next>, Kind, Choices, D> extends true
+    ? true
+    : CheckConstraints<
+        Next,
+        Kind,
+        Choices,
+        D,
+        [First] extends [never]
+          ? CheckRequiredOrDefault<TrimStart<Next>, Kind, Choices, D>
+          : First
+      >
+  : [First] extends [never]
+  ? DefinitionError<D, "expected '}'">
+  : First;
+type CheckRequiredOrDefault<S, Kind, Choices, D> = S extends `!${infer Next}`
+  ? CheckAfterDefault<Next, D>
+  : S extends `=${infer Next}`
+  ? CheckDefault<TrimStart<Next>, Kind, Choices, D>
+  : CheckAfterDefault<S, D>;
+type CheckDefault<S, Kind, Choices, D> = S extends `"${infer Next}`
+  ? CheckEnclosedDefault<Next, `"`, `"`, Kind, Choices, D>
+  : S extends `[${infer Next}`
+  ? CheckEnclosedDefault<Next, "[", "]", Kind, Choices, D>
+  : S extends `{${infer Next}`
+  ? CheckEnclosedDefault<Next, "{", "}", Kind, Choices, D>
+  : DefaultValueOf<S> extends ""
+  ? DefinitionError<D, "missing default value">
+  : S extends `${DefaultValueOf<S> & string}${infer Next}`
+  ? CheckDefaultValue<DefaultValueOf<S>, Kind, Choices, D, Next>
+  : never;
+// the closing character may be escaped or quoted, so every one is tried until the rest is valid
+type CheckEnclosedDefault<
+  S,
+  Value extends string,
+  Close extends string,
+  Kind,
+  Choices,
+  D
+> = S extends `${infer Inner}${Close}${infer Next}`
+  ? CheckAfterDefault<Next, D> extends true
+    ? CheckDefaultValue<`${Value}${Inner}${Close}`, Kind, Choices, D, Next>
+    : CheckEnclosedDefault<
+        Next,
+        `${Value}${Inner}${Close}`,
+        Close,
+        Kind,
+        Choices,
+        D
+      >
+  : DefinitionError<D, `expected '${Close}'`>;
+type DefaultValueOf<S> = TrimEnd<
+  S extends `${infer Value};${string}`
+    ? Value extends `${infer Value}@${string}`
+      ? Value
+      : Value
+    : S extends `${infer Value}@${string}`
+    ? Value
+    : S
+>;
+type CheckDefaultValue<V, Kind, Choices, D, Next> = (
+  Kind extends "boolean"
+    ? V extends "true" | "false"
+      ? true
+      : false
+    : Kind extends "count"
+    ? V extends `${number}`
+      ? V extends `-${string}` | `${string}.${string}`
+        ? false
+        : true
+      : false
+    : Kind extends "number"
+    ? V extends `${number}`
+      ? true
+      : false
+    : Kind extends "string"
+    ? V extends `"${string}"`
+      ? true
+      : false
+    : Kind extends "choices"
+    ? V extends `"${Choices & string}"`
+      ? true
+      : false
+    : Kind extends "number[]" | "string[]" | "choices[]"
+    ? V extends `[${string}]`
+      ? true
+      : false
+    : Kind extends `Record<${string}>`
+    ? V extends `{${string}}`
+      ? true
+      : false
+    : true
+) extends true
+  ? CheckAfterDefault<Next, D>
+  : DefinitionError<
+      D,
+      `default value ${V & string} does not match ${Kind extends "choices"
+        ? "the choices"
+        : Kind extends "choices[]"
+        ? "the choices"
+        : Kind & string}`
+    >;
+type CheckAfterDefault<S, D> = TrimStart<S> extends ""
+  ? true
+  : TrimStart<S> extends `;${string}`
+  ? true
+  : TrimStart<S> extends `@${infer Env}`
+  ? TakeIdentifier<Env> extends ""
+    ? DefinitionError<D, "missing environment variable">
+    : Env extends `${TakeIdentifier<Env>}${infer Next}`
+    ? TrimStart<Next> extends "" | `;${string}`
+      ? true
+      : DefinitionError<D, `unexpected '${TrimStart<Next> & string}'`>
+    : never
+  : DefinitionError<D, `unexpected '${TrimStart<S> & string}'`>;
+type NamesOf<S> = S extends string
+  ? StripMarkers<S> extends `${infer Names}:${string}`
+    ? SplitNames<Names>
+    : never
+  : never;
+type SplitNames<S> = S extends `${infer Name},${infer Rest}`
+  ? TrimStart<TrimEnd<Name>> | SplitNames<Rest>
+  : TrimStart<TrimEnd<S>>;
+type Overlaps<A, B> = true extends (A extends B ? true : false) ? true : false;
+type CheckedDefinitions<
+  T extends Record<string, string>,
+  U extends CustomTypes
+> = {
+  [K in keyof T]: CheckedDefinition<T[K], NamesOf<T[Exclude<keyof T, K>]>, U>;
+};
+type CheckedDefinition<S, OtherNames, U extends CustomTypes> = S extends string
+  ? CheckDefinition<S, U> extends true
+    ? Overlaps<NamesOf<S>, OtherNames> extends true
+      ? `Duplicated name ${Extract<NamesOf<S>, OtherNames> & string}: ${S}`
+      : S
+    : CheckDefinition<S, U>
+  : never;
+type ValidDefinitions<
+  T extends Record<string, string>,
+  U extends CustomTypes
+> = T extends CheckedDefinitions<T, U> ? T : CheckedDefinitions<T, U>;
+type ParsePositional<S> = S extends ` ${infer Rest}`
+  ? ParsePositional<Rest>
+  : S extends `<${infer Type}>${infer Next}`
+  ? ParseAfterPositional<ParsePositionalType<Type>, Next>
+  : S extends `[${infer Type}]${infer Next}`
+  ? ParseAfterPositional<ParsePositionalType<Type>, Next, null>
+  : never;
+type ParsePositionalType<S> = S extends ` ${infer Rest}`
+  ? ParsePositionalType<Rest>
+  : S extends `number${string}`
+  ? number
+  : S extends `string${string}`
+  ? string
+  : never;
+type ParseAfterPositional<T, S, Null = never> = S extends ` ${infer Rest}`
+  ? ParseAfterPositional<T, Rest, Null>
+  : S extends `...${string}`
+  ? T[]
+  : T | Null;
 
 export class SettingsError extends Error {}
-export class ValidationError extends Error {}
+export type ValidationIssueCode =
+  | "required"
+  | "type_mismatch"
+  | "multiple_values"
+  | "unknown_option"
+  | "invalid_choice"
+  | "constraint_violation"
+  | "conflict"
+  | "missing_dependency"
+  | "group_violation"
+  | "invalid_config"
+  | "target_required"
+  | "too_many_arguments"
+  | "command_required"
+  | "unknown_command"
+  | "custom";
+export type ValidationIssue = {
+  code: ValidationIssueCode;
+  key: string | null;
+  name: string | null;
+  value: unknown;
+  suggestions?: string[];
+  index?: number;
+  message: string;
+};
+export class ValidationError extends Error {
+  readonly issues: ValidationIssue[];
+  constructor(message = "", issues?: ValidationIssue[]) {
+    super(message);
+    this.issues = issues ?? [issueOf("custom", message)];
+  }
+}
+function issueOf(
+  code: ValidationIssueCode,
+  message: string,
+  params: {
+    key?: string;
+    name?: string | null;
+    value?: unknown;
+    suggestions?: string[];
+    index?: number;
+  } = {}
+): ValidationIssue {
+  return {
+    code,
+    key: params.key ?? null,
+    name: params.name ?? null,
+    value: params.value ?? null,
+    ...(params.suggestions != null ? { suggestions: params.suggestions } : {}),
+    ...(params.index != null ? { index: params.index } : {}),
+    message,
+  };
+}
+function invalid(
+  code: ValidationIssueCode,
+  message: string,
+  params: { key?: string; name?: string | null; value?: unknown } = {}
+): ValidationError {
+  return new ValidationError(message, [issueOf(code, message, params)]);
+}
+function aggregate(issues: ValidationIssue[]): ValidationError {
+  return new ValidationError(
+    issues.map((issue) => issue.message).join("\n"),
+    issues
+  );
+}
+
+export const defaultMessages = {
+  // validation issues (prefixed by the code)
+  required: "{name} is required",
+  type_mismatch: "{name} should be {expected}",
+  type_mismatch_each: "All value of {name} should be {expected}",
+  type_mismatch_value: "{name} should be {expected}: {value}",
+  multiple_values: "{name} should not have multiple values",
+  unknown_option: "unknown option: {name}",
+  unknown_option_in_config: "unknown option in {path}: {name}",
+  invalid_choice: "{name} should be one of {choices}: {value}",
+  constraint_violation_integer: "{name} should be an integer: {value}",
+  constraint_violation_min: "{name} should be at least {min}: {value}",
+  constraint_violation_max: "{name} should be at most {max}: {value}",
+  constraint_violation_pattern: "{name} should match {pattern}: {value}",
+  constraint_violation_min_items: "{name} should have at least {min} values",
+  constraint_violation_max_items: "{name} should have at most {max} values",
+  conflict: "{name} cannot be used with {other}",
+  missing_dependency: "{name} requires {other}",
+  group_violation_exactly_one: "exactly one of {names} is required",
+  group_violation_at_least_one: "at least one of {names} is required",
+  invalid_config_read: "could not read config file: {path}",
+  invalid_config_parse: "could not parse config file: {path}",
+  invalid_config_object: "config file should be an object: {path}",
+  too_many_arguments: "too many arguments: {values}",
+  command_required: "command is required",
+  unknown_command: "unknown command: {name}",
+  custom: "{name} is invalid: {message}",
+  // settings errors of the default values
+  default_value: "The default value of {name}",
+  default_value_parse: "Could not parse default value of {name}: {value}",
+  // parts of the messages
+  source_env: "environment variable {env}",
+  source_config: "{name} in {path}",
+  did_you_mean: "{message} (did you mean {suggestions}?)",
+  or: "{a} or {b}",
+  separator: ", ",
+  type_boolean: "a boolean",
+  type_count: "a non-negative integer",
+  type_number: "a number",
+  type_string: "a string",
+  type_array: "an array of {type}",
+  type_object: "an object of {type}",
+  type_custom: "{article} {type}",
+  type_key_value: "in the form key=value",
+  deprecated: "{name} is deprecated",
+  deprecated_hint: "{name} is deprecated: {hint}",
+  deprecated_replacement: "{name} is deprecated, use {replacement} instead",
+  error: "Error: {message}",
+  warning: "Warning: {message}",
+  // help
+  help_usage: "Usage:",
+  help_arguments: "Arguments:",
+  help_commands: "Commands:",
+  help_options: "Options:",
+  help_examples: "Examples:",
+  help_required: "(required)",
+  help_default: "(default:{value})",
+  help_env: "(env:{env})",
+  help_repeatable: "(repeatable)",
+  help_deprecated: "(deprecated)",
+  help_deprecated_hint: "(deprecated: {hint})",
+  help_version: "Show version",
+  help_all: "Show help including hidden options",
+  // prompt
+  prompt_yes_no: "{label} (y/n): ",
+  prompt_select: "Select 1-{count}: ",
+};
+export type Messages = Record<keyof typeof defaultMessages, string>;
+function format(template: string, params: Record<string, unknown> = {}) {
+  return template.replace(/\{(\w+)\}/g, (s, name) =>
+    name in params ? String(params[name]) : s
+  );
+}
+function joinOr(items: string[], messages: Messages): string {
+  return items.reduce((a, b) => format(messages.or, { a, b }));
+}
 
-type Type = "boolean" | "number[]" | "number" | "string[]" | "string";
+type Type =
+  | "boolean"
+  | "count"
+  | "number[]"
+  | "number"
+  | "string[]"
+  | "string"
+  | "Record<string,number>"
+  | "Record<string,string>";
+function isRecordType(
+  type: Type
+): type is "Record<string,number>" | "Record<string,string>" {
+  return type === "Record<string,number>" || type === "Record<string,string>";
+}
+function valuesOf(value: any): any[] {
+  return Array.isArray(value)
+    ? value
+    : typeof value === "object" && value !== null
+    ? Object.values(value)
+    : [value];
+}
 
-function parseDefaultValue(long: string, defaultValue: string): any {
+function parseDefaultValue(
+  long: string,
+  defaultValue: string,
+  messages: Messages
+): any {
   try {
     return JSON.parse(defaultValue);
   } catch (e) {
     throw new SettingsError(
-      `Could not parse default value of ${long}: ${defaultValue}`
+      format(messages.default_value_parse, { name: long, value: defaultValue })
     );
   }
 }
 function typeMismatchOfDefaultValue(
   long: string,
   type: Type,
-  defaultValue: string
+  defaultValue: string,
+  messages: Messages
 ): never {
   const what =
-    type === "boolean"
-      ? "a boolean"
-      : type === "number"
-      ? "a number"
-      : type === "number[]"
-      ? "an array of number"
-      : type === "string"
-      ? "a string"
-      : type === "string[]"
-      ? "an array of string"
+    type === "boolean" ||
+    type === "count" ||
+    type === "number" ||
+    type === "string"
+      ? messages[`type_${type}` as const]
+      : type === "number[]" || type === "string[]"
+      ? format(messages.type_array, { type: type.replace("[]", "") })
+      : type === "Record<string,number>"
+      ? format(messages.type_object, { type: "number" })
+      : type === "Record<string,string>"
+      ? format(messages.type_object, { type: "string" })
       : null;
   assert(what !== null);
   throw new SettingsError(
-    `The default value of ${long} should be ${what}: ${defaultValue}`
+    format(messages.type_mismatch_value, {
+      name: format(messages.default_value, { name: long }),
+      expected: what,
+      value: defaultValue,
+    })
   );
 }
-type ParsedDefinition = {
+export type ParsedName = {
+  name: string;
+  deprecated: string | null;
+  hidden: boolean;
+};
+export type ParsedDefinition = {
   short: string | null;
   long: string;
+  names: ParsedName[];
   type: Type;
   required: boolean;
+  choices: string[] | null;
+  constraints: Constraints;
+  custom: {
+    name: string;
+    parse: (value: string) => unknown;
+    rawDefaultValue: string | null;
+  } | null;
   defaultValue: any;
+  env: string | null;
   description: string;
 };
-type ParsedDefinitions = Record<string, ParsedDefinition>;
-function parseDefinitions(types: Record<string, string>): ParsedDefinitions {
+export type ParsedDefinitions = Record<string, ParsedDefinition>;
+function parseDefinitions(
+  types: Record<string, string>,
+  customTypes: CustomTypes = {},
+  messages: Messages = defaultMessages
+): ParsedDefinitions {
   const result: ParsedDefinitions = {};
   const keys: Set<string> = new Set();
   const dups: string[] = [];
   for (const key in types) {
-    const t = parseDefinition(types[key]);
-    if (t.short != null) {
-      if (keys.has(t.short)) {
-        dups.push(t.short);
+    const t = parseDefinition(key, types[key], customTypes, messages);
+    for (const { name } of t.names) {
+      const body = name.replace(/^-+/, "");
+      if (keys.has(body)) {
+        dups.push(body);
       }
-      keys.add(t.short);
-    }
-    if (keys.has(t.long)) {
-      dups.push(t.long);
+      keys.add(body);
     }
-    keys.add(t.long);
     result[key] = t;
   }
   if (dups.length > 0) {
@@ -98,6 +671,8 @@ function defaultValueOf(type: Type): any {
   switch (type) {
     case "boolean":
       return false;
+    case "count":
+      return 0;
     case "number[]":
       return [];
     case "number":
@@ -106,6 +681,9 @@ function defaultValueOf(type: Type): any {
       return [];
     case "string":
       return null;
+    case "Record<string,number>":
+    case "Record<string,string>":
+      return {};
   }
 }
 function isDefaultValueCorrectType(type: Type, json: any): boolean {
@@ -116,6 +694,12 @@ function isDefaultValueCorrectType(type: Type, json: any): boolean {
       }
       return true;
     }
+    case "count": {
+      if (!Number.isInteger(json) || json < 0) {
+        return false;
+      }
+      return true;
+    }
     case "number[]": {
       if (!Array.isArray(json)) {
         return false;
@@ -150,48 +734,246 @@ function isDefaultValueCorrectType(type: Type, json: any): boolean {
       }
       return true;
     }
+    case "Record<string,number>":
+    case "Record<string,string>": {
+      if (json == null || typeof json !== "object" || Array.isArray(json)) {
+        return false;
+      }
+      const itemType = type === "Record<string,number>" ? "number" : "string";
+      for (const item of Object.values(json)) {
+        if (typeof item !== itemType) {
+          return false;
+        }
+      }
+      return true;
+    }
   }
 }
+const nameSource = /(?:-[a-zA-Z0-9]|--[a-zA-Z0-9]+(?:-[a-zA-Z0-9]+)*)\s*(?:\(\s*(?:hidden|deprecated\s*(?::[^)]*)?)\s*\))?/
+  .source;
+const nameRegex = /\s*(-[a-zA-Z0-9]|--[a-zA-Z0-9]+(?:-[a-zA-Z0-9]+)*)\s*(?:\(\s*(hidden|deprecated\s*(?::([^)]*))?)\s*\))?\s*,?/y;
 const definitionRegex = new RegExp(
   [
-    // short
-    /^(?:\s*-([a-zA-Z0-9])\s*,)?/,
-    // long
-    /\s*--([a-zA-Z0-9]+)/,
+    // names
+    new RegExp(`^\\s*((?:${nameSource}\\s*,\\s*)*${nameSource})`),
     // type
-    /\s*:\s*(boolean|number(?:\s*\[\s*\])?|string(?:\s*\[\s*\])?)/,
+    /\s*:\s*(Record\s*<\s*string\s*,\s*(?:string|number)\s*>|boolean|count|number(?:\s*\[\s*\])?|string(?:\s*\[\s*\])?|[a-zA-Z_][a-zA-Z0-9_]*(?:\s*\[\s*\])?|"[^"]*"(?:\s*\|\s*"[^"]*")*|\(\s*"[^"]*"(?:\s*\|\s*"[^"]*")*\s*\)\s*\[\s*\])/,
+    // constraints
+    /(?:\s*\{((?:[^}/]|\/(?:[^/\\]|\\.)*\/)*)\})?/,
     // required or default
-    /(?:\s*(!)|\s*=\s*((?:[^;"]*(?:"(?:[^"\\]|\\.)*")?)*))?/,
+    /(?:\s*(!)|\s*=\s*((?:[^;"@]*(?:"(?:[^"\\]|\\.)*")?)*))?/,
+    // environment variable
+    /(?:\s*@([a-zA-Z_][a-zA-Z0-9_]*))?/,
     // description
     /\s*(?:;\s*(.*))?$/,
   ]
     .map((r) => r.source)
     .join("")
 );
-function parseDefinition(s: string): ParsedDefinition {
+type Constraints = {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  minItems?: number;
+  maxItems?: number;
+};
+const constraintRegex = /\s*(?:(integer)|(min|max|minItems|maxItems)\s*:\s*(-?\d+(?:\.\d+)?)|(pattern)\s*:\s*\/((?:[^/\\]|\\.)*)\/([a-z]*))\s*(?:,|$)/y;
+function parseConstraints(long: string, type: Type, s: string): Constraints {
+  const constraints: Constraints = {};
+  constraintRegex.lastIndex = 0;
+  while (constraintRegex.lastIndex < s.length) {
+    const start = constraintRegex.lastIndex;
+    const matched = constraintRegex.exec(s);
+    if (matched == null) {
+      throw new SettingsError(
+        `Unknown constraint of ${long}: ${s.slice(start).trim()}`
+      );
+    }
+    const [, _integer, _name, _number, _pattern, _source, _flags] = matched;
+    const name = _integer ?? _name ?? _pattern;
+    const allowed =
+      name === "integer" || name === "min" || name === "max"
+        ? type === "count" ||
+          type === "number" ||
+          type === "number[]" ||
+          type === "Record<string,number>"
+        : name === "pattern"
+        ? type === "string" ||
+          type === "string[]" ||
+          type === "Record<string,string>"
+        : type === "number[]" || type === "string[]";
+    if (!allowed) {
+      throw new SettingsError(
+        `Constraint "${name}" cannot be used for ${type}: ${long}`
+      );
+    }
+    if (_integer != null) {
+      constraints.integer = true;
+    } else if (_pattern != null) {
+      constraints.pattern = new RegExp(_source, _flags.replace(/[gy]/g, ""));
+    } else {
+      constraints[_name as "min" | "max" | "minItems" | "maxItems"] = Number(
+        _number
+      );
+    }
+  }
+  return constraints;
+}
+type Violation = {
+  message: keyof Messages;
+  params: Record<string, unknown>;
+};
+function violationOfValue(value: any, c: Constraints): Violation | null {
+  if (typeof value === "number") {
+    if (c.integer && !Number.isInteger(value)) {
+      return { message: "constraint_violation_integer", params: {} };
+    }
+    if (c.min != null && value < c.min) {
+      return { message: "constraint_violation_min", params: { min: c.min } };
+    }
+    if (c.max != null && value > c.max) {
+      return { message: "constraint_violation_max", params: { max: c.max } };
+    }
+  }
+  if (typeof value === "string" && c.pattern != null) {
+    if (!c.pattern.test(value)) {
+      return {
+        message: "constraint_violation_pattern",
+        params: { pattern: c.pattern },
+      };
+    }
+  }
+  return null;
+}
+function violationOfItems(values: any[], c: Constraints): Violation | null {
+  if (c.minItems != null && values.length < c.minItems) {
+    return {
+      message: "constraint_violation_min_items",
+      params: { min: c.minItems },
+    };
+  }
+  if (c.maxItems != null && values.length > c.maxItems) {
+    return {
+      message: "constraint_violation_max_items",
+      params: { max: c.maxItems },
+    };
+  }
+  return null;
+}
+
+function parseCustomDefaultValue(
+  long: string,
+  type: Type,
+  custom: { name: string; parse: (value: string) => unknown },
+  defaultValue: string,
+  messages: Messages
+): any {
+  const mismatch = (expected: string) =>
+    new SettingsError(
+      format(messages.type_mismatch_value, {
+        name: format(messages.default_value, { name: long }),
+        expected,
+        value: defaultValue,
+      })
+    );
+  const parse = (s: string) => {
+    try {
+      return custom.parse(s);
+    } catch (e) {
+      throw mismatch(custom.name);
+    }
+  };
+  if (type === "string[]") {
+    const json = parseDefaultValue(long, defaultValue, messages);
+    if (!Array.isArray(json)) {
+      throw mismatch(format(messages.type_array, { type: custom.name }));
+    }
+    return json.map((item) => parse(String(item)));
+  }
+  let raw = defaultValue.trim();
+  try {
+    const json = JSON.parse(raw);
+    if (typeof json === "string") {
+      raw = json;
+    }
+  } catch (e) {}
+  return parse(raw);
+}
+function parseNames(s: string): ParsedName[] {
+  const names: ParsedName[] = [];
+  nameRegex.lastIndex = 0;
+  while (nameRegex.lastIndex < s.length) {
+    const [, name, marker, hint] = nameRegex.exec(s)!;
+    names.push({
+      name,
+      deprecated: marker?.startsWith("deprecated") ? (hint ?? "").trim() : null,
+      hidden: marker === "hidden",
+    });
+  }
+  return names;
+}
+function parseDefinition(
+  key: string,
+  s: string,
+  customTypes: CustomTypes = {},
+  messages: Messages = defaultMessages
+): ParsedDefinition {
   const result = definitionRegex.exec(s);
   if (result == null) {
-    throw new Error("Syntax Error: " + s);
+    throw new SettingsError(`Syntax error in definition of ${key}: ${s}`);
   }
   const [
     ,
-    _short,
-    _long,
+    _names,
     _type,
+    _constraints,
     _required,
     _defaultValue,
+    _env,
     _description,
   ] = result;
-  const short = _short ?? null;
-  const long = _long;
-  const __type = _type.replace(/\s+/g, "");
+  const names = parseNames(_names);
+  // the first name that is not deprecated is used in messages
+  const primaryOf = (prefix: RegExp) => {
+    const candidates = names.filter((n) => prefix.test(n.name));
+    const primary = candidates.find((n) => n.deprecated == null);
+    return (primary ?? candidates[0])?.name.replace(/^-+/, "") ?? null;
+  };
+  const short = primaryOf(/^-[^-]/);
+  const long = primaryOf(/^--/);
+  if (long == null) {
+    throw new SettingsError(`Syntax error in definition of ${key}: ${s}`);
+  }
+  let choices = null;
+  let __type = _type.replace(/\s+/g, "");
+  if (__type.startsWith('"') || __type.startsWith("(")) {
+    choices = (_type.match(/"[^"]*"/g) ?? []).map((c) => c.slice(1, -1));
+    __type = __type.startsWith("(") ? "string[]" : "string";
+  }
+  let custom: ParsedDefinition["custom"] = null;
+  const customName = __type.replace("[]", "");
+  if (
+    !["boolean", "count", "number", "string"].includes(customName) &&
+    Object.prototype.hasOwnProperty.call(customTypes, customName)
+  ) {
+    custom = {
+      name: customName,
+      parse: customTypes[customName].parse,
+      rawDefaultValue: _defaultValue?.trim() ?? null,
+    };
+    __type = __type.endsWith("[]") ? "string[]" : "string";
+  }
   let type = null;
   switch (__type) {
     case "boolean":
+    case "count":
     case "number[]":
     case "number":
     case "string[]":
     case "string":
+    case "Record<string,number>":
+    case "Record<string,string>":
       type = __type;
       break;
     default:
@@ -199,278 +981,2619 @@ function parseDefinition(s: string): ParsedDefinition {
   }
   const required = _required === "!";
   let defaultValue = defaultValueOf(type);
-  if (_defaultValue != null) {
-    defaultValue = parseDefaultValue(long, _defaultValue);
+  if (_defaultValue != null && custom != null) {
+    defaultValue = parseCustomDefaultValue(
+      long,
+      type,
+      custom,
+      _defaultValue,
+      messages
+    );
+  } else if (_defaultValue != null) {
+    defaultValue = parseDefaultValue(long, _defaultValue, messages);
     if (!isDefaultValueCorrectType(type, defaultValue)) {
-      typeMismatchOfDefaultValue(long, type, _defaultValue);
+      typeMismatchOfDefaultValue(long, type, _defaultValue, messages);
+    }
+    if (choices != null) {
+      const values = Array.isArray(defaultValue)
+        ? defaultValue
+        : [defaultValue];
+      for (const value of values) {
+        if (!choices.includes(value)) {
+          throw new SettingsError(
+            format(messages.invalid_choice, {
+              name: format(messages.default_value, { name: long }),
+              choices: choices.join(messages.separator),
+              value: _defaultValue,
+            })
+          );
+        }
+      }
     }
   }
+  const constraints = parseConstraints(long, type, _constraints ?? "");
+  if (_defaultValue != null) {
+    const values = valuesOf(defaultValue);
+    const violations = [
+      violationOfItems(values, constraints),
+      // the default value of custom types is already converted
+      ...(custom == null
+        ? values.map((value) => violationOfValue(value, constraints))
+        : []),
+    ];
+    const violation = violations.find((v) => v != null);
+    if (violation != null) {
+      throw new SettingsError(
+        format(messages[violation.message], {
+          ...violation.params,
+          name: format(messages.default_value, { name: long }),
+          value: _defaultValue,
+        })
+      );
+    }
+  }
+  const env = _env ?? null;
   const description = _description ?? "";
   return {
     short,
     long,
+    names,
     type,
     required,
+    choices,
+    constraints,
+    custom,
     defaultValue,
+    env,
     description,
   };
 }
 
-function collectValues(longValue: any, shortValue: any) {
-  longValue ??= null;
-  shortValue ??= null;
-  if (longValue == null) {
-    return shortValue;
+export type ParsedPositional = {
+  name: string;
+  type: "number" | "string";
+  required: boolean;
+  variadic: boolean;
+  description: string;
+};
+export type ParsedPositionals = ParsedPositional[];
+const positionalRegex = /^\s*(?:<\s*(number|string)\s*>|\[\s*(number|string)\s*\])\s*(\.\.\.)?\s*(?:;\s*(.*))?$/;
+function parsePositionals(types: Record<string, string>): ParsedPositionals {
+  const result: ParsedPositionals = [];
+  for (const name in types) {
+    const matched = positionalRegex.exec(types[name]);
+    if (matched == null) {
+      throw new SettingsError(
+        `Syntax error in positional ${name}: ${types[name]}`
+      );
+    }
+    const [, _required, _optional, _variadic, _description] = matched;
+    const last = result[result.length - 1];
+    if (last?.variadic) {
+      throw new SettingsError(
+        `Positional argument after variadic one is not allowed: ${name}`
+      );
+    }
+    if (last != null && !last.required && _required != null) {
+      throw new SettingsError(
+        `Required positional argument after optional one is not allowed: ${name}`
+      );
+    }
+    result.push({
+      name,
+      type: (_required ?? _optional) as "number" | "string",
+      required: _required != null,
+      variadic: _variadic != null,
+      description: _description ?? "",
+    });
+  }
+  return result;
+}
+
+function parseBoolean(s: string): boolean | null {
+  switch (s.toLowerCase()) {
+    case "true":
+    case "yes":
+    case "1":
+      return true;
+    case "false":
+    case "no":
+    case "0":
+      return false;
+    default:
+      return null;
   }
-  if (shortValue == null) {
-    return longValue;
+}
+function convertValue(type: Type, s: string): any {
+  if (type === "boolean") {
+    return parseBoolean(s) ?? s;
   }
-  if (!Array.isArray(longValue)) {
-    longValue = [longValue];
+  if (type === "count" || type === "number" || type === "number[]") {
+    const n = Number(s);
+    return s.trim() !== "" && !isNaN(n) ? n : s;
   }
-  if (!Array.isArray(shortValue)) {
-    shortValue = [shortValue];
+  return s;
+}
+function valueFromEnv(type: Type, s: string): any {
+  if (type === "number[]" || type === "string[]" || isRecordType(type)) {
+    return s === "" ? [] : s.split(",").map((s) => convertValue(type, s));
   }
-  return [...longValue, ...shortValue];
+  return convertValue(type, s);
 }
 
-function validate(
+type Occurrence = {
+  name: string;
+  value: any;
+  index: number;
+};
+type ParsedArgs = {
+  values: Record<string, Occurrence[]>;
+  unknowns: Occurrence[];
+  targets: Occurrence[];
+  rest: string[];
+};
+function takesValue(d: ParsedDefinition): boolean {
+  return d.type !== "boolean" && d.type !== "count";
+}
+function isNumeric(s: string): boolean {
+  return /^-?(?:\d+(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?$/i.test(s);
+}
+function isValueArg(arg: string | undefined, d: ParsedDefinition): boolean {
+  if (arg == null || arg === "--") {
+    return false;
+  }
+  if (arg === "-" || !arg.startsWith("-")) {
+    return true;
+  }
+  return (d.type === "number" || d.type === "number[]") && isNumeric(arg);
+}
+function inlineValueOf(d: ParsedDefinition, s: string): any {
+  return d.type === "count" ? s : convertValue(d.type, s);
+}
+function tokenize(
   args: string[],
-  parsed: Record<string, any>,
   defs: ParsedDefinitions,
-  requireTarget: string | boolean
-): { targets: string[]; options: any; rest: string[] } {
-  const targets = parsed._;
-  const rest = parsed["--"]!;
-  if (requireTarget && targets.length === 0) {
-    if (typeof requireTarget === "string") {
-      throw new ValidationError(requireTarget);
-    } else {
-      throw new ValidationError();
-    }
-  }
-  const result = {} as Record<string, any>;
-  const longToType = new Map<string, Type>();
-  const shortToType = new Map<string, Type>();
+  commandIndex = -1
+): ParsedArgs {
+  const longToKey = new Map<string, string>();
+  const shortToKey = new Map<string, string>();
+  const values: Record<string, Occurrence[]> = {};
   for (const key in defs) {
-    const { short, long, type, required, defaultValue } = defs[key];
-    longToType.set(long, type);
-    if (short != null) {
-      shortToType.set(short, type);
-    }
-    if (type === "boolean") {
-      if (short != null && parsed[short] === false) {
-        parsed[short] = null;
-      }
-      if (parsed[long] === false) {
-        parsed[long] = null;
-      }
-    }
-    const shortValue = short != null ? parsed[short] : null;
-    const longValue = parsed[long];
-    let value = collectValues(longValue, shortValue);
-    const shortName = short != null ? `-${short}` : null;
-    const longName = `--${long}`;
-    const foundName = longValue != null ? longName : shortName;
-    if (value == null) {
-      value = defaultValue;
-    }
-    if (value == null) {
-      if (required) {
-        const n = `${shortName != null ? shortName + " or " : ""}${longName}`;
-        throw new ValidationError(`${n} is required`);
-      }
-    } else if (type === "boolean") {
-      if (Array.isArray(value)) {
-        throw new ValidationError(
-          `${foundName} should not have multiple values`
-        );
-      }
-      if (typeof value !== "boolean") {
-        throw new ValidationError(`${foundName} should be a boolean`);
-      }
-    } else if (type === "number") {
-      if (Array.isArray(value)) {
-        throw new ValidationError(
-          `${foundName} should not have multiple values`
-        );
-      }
-      if (typeof value !== "number") {
-        throw new ValidationError(`${foundName} should be a number`);
-      }
-    } else if (type === "number[]") {
-      value = Array.isArray(value) ? value : [value];
-      for (const v of value) {
-        if (typeof v !== "number") {
-          throw new ValidationError(
-            "All value of " + `${foundName} should be a number`
-          );
-        }
-      }
-    } else if (type === "string") {
-      if (Array.isArray(value)) {
-        throw new ValidationError(
-          `${foundName} should not have multiple values`
-        );
-      }
-      if (typeof value !== "string") {
-        if (typeof value === "number") {
-          value = String(value);
-        } else {
-          throw new ValidationError(`${foundName} should be a string`);
-        }
-      }
-    } else if (type === "string[]") {
-      value = Array.isArray(value) ? value : [value];
-      for (let i = 0; i < value.length; i++) {
-        const v = value[i];
-        if (typeof v !== "string") {
-          if (typeof v === "number") {
-            value[i] = String(v);
-          } else {
-            throw new ValidationError(
-              `All value of ${foundName} should be a string`
-            );
-          }
-        }
+    for (const { name } of defs[key].names) {
+      if (name.startsWith("--")) {
+        longToKey.set(name.slice(2), key);
+      } else {
+        shortToKey.set(name.slice(1), key);
       }
     }
-    result[key] = value;
+    values[key] = [];
   }
-  for (const arg of args) {
+  const unknowns: Occurrence[] = [];
+  const targets: Occurrence[] = [];
+  let rest: string[] = [];
+  // reads the value of `d` from the next arg, or marks it as missing
+  const readNext = (d: ParsedDefinition, name: string, i: number): number => {
+    const key = longToKey.get(d.long)!;
+    if (i + 1 !== commandIndex && isValueArg(args[i + 1], d)) {
+      values[key].push({
+        name,
+        value: convertValue(d.type, args[i + 1]),
+        index: i + 1,
+      });
+      return i + 1;
+    }
+    values[key].push({ name, value: true, index: i });
+    return i;
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (i === commandIndex) {
+      continue;
+    }
     if (arg === "--") {
+      rest = args.slice(i + 1);
       break;
     }
-    const matched = /^--([^=]+)=.*$/.exec(arg);
-    if (matched) {
-      const [, k] = matched;
-      if (longToType.get(k) === "boolean") {
-        throw new ValidationError(`--${k} should be a boolean`);
+    const long = /^--([^=]+)(?:=([\s\S]*))?$/.exec(arg);
+    if (long != null) {
+      const [, body, inline] = long;
+      const name = `--${body}`;
+      const key = longToKey.get(body);
+      const negated = body.startsWith("no-")
+        ? longToKey.get(body.slice(3))
+        : undefined;
+      if (key != null) {
+        const d = defs[key];
+        if (inline != null) {
+          values[key].push({ name, value: inlineValueOf(d, inline), index: i });
+        } else if (takesValue(d)) {
+          i = readNext(d, name, i);
+        } else {
+          values[key].push({ name, value: true, index: i });
+        }
+      } else if (
+        negated != null &&
+        defs[negated].type === "boolean" &&
+        inline == null
+      ) {
+        values[negated].push({ name, value: false, index: i });
+      } else {
+        unknowns.push({ name, value: inline ?? true, index: i });
       }
+      continue;
     }
-  }
-  for (const key in parsed) {
     if (
-      key !== "_" &&
-      key !== "--" &&
-      !longToType.has(key) &&
-      !shortToType.has(key)
+      arg.length < 2 ||
+      !arg.startsWith("-") ||
+      (isNumeric(arg) && !shortToKey.has(arg[1]))
     ) {
-      let name!: string;
-      for (const arg of args) {
-        if (new RegExp(`^--${key}`).test(arg)) {
-          name = `--${key}`;
+      targets.push({ name: arg, value: arg, index: i });
+      continue;
+    }
+    const body = arg.slice(1);
+    for (let j = 0; j < body.length; j++) {
+      const name = `-${body[j]}`;
+      const key = shortToKey.get(body[j]);
+      const after = body.slice(j + 1);
+      const inline = after.startsWith("=") ? after.slice(1) : null;
+      if (key == null) {
+        if (inline != null || isNumeric(after)) {
+          unknowns.push({ name, value: inline ?? after, index: i });
           break;
-        } else if (new RegExp(`^-${key}`).test(arg)) {
-          name = `-${key}`;
+        }
+        unknowns.push({ name, value: true, index: i });
+        continue;
+      }
+      const d = defs[key];
+      if (inline != null) {
+        values[key].push({ name, value: inlineValueOf(d, inline), index: i });
+        break;
+      }
+      if (!takesValue(d)) {
+        if (isNumeric(after)) {
+          // attached digits are not a value of flags (e.g. `-a1`), use `-a=1` instead
+          values[key].push({ name, value: after, index: i });
           break;
         }
+        values[key].push({ name, value: true, index: i });
+        continue;
       }
-      throw new ValidationError(`unknown option: ${name}`);
+      if (after !== "") {
+        values[key].push({
+          name,
+          value: convertValue(d.type, after),
+          index: i,
+        });
+      } else {
+        i = readNext(d, name, i);
+      }
+      break;
     }
   }
-  return {
-    targets,
-    options: result as any,
-    rest,
-  };
+  return { values, unknowns, targets, rest };
+}
+function argValueOf(
+  d: ParsedDefinition,
+  occurrences: Occurrence[]
+): { value: any; name: string | null } {
+  if (occurrences.length === 0) {
+    return { value: null, name: null };
+  }
+  const first = occurrences[0];
+  if (d.type === "boolean") {
+    const last = occurrences[occurrences.length - 1];
+    return { value: last.value, name: last.name };
+  }
+  if (d.type === "count") {
+    const invalid = occurrences.find((o) => o.value !== true);
+    return invalid != null
+      ? { value: invalid.value, name: invalid.name }
+      : { value: occurrences.length, name: first.name };
+  }
+  if (occurrences.length === 1) {
+    return { value: first.value, name: first.name };
+  }
+  return { value: occurrences.map((o) => o.value), name: first.name };
+}
+function flagOf(
+  parsed: ParsedArgs,
+  defs: ParsedDefinitions,
+  key: string
+): boolean {
+  const d = defs[key];
+  return (
+    d != null &&
+    d.type === "boolean" &&
+    argValueOf(d, parsed.values[key]).value === true
+  );
 }
 
-function makeHelp(usage: string | null, defs: ParsedDefinitions) {
-  let s = usage ? `Usage: ${usage}\n` : "";
-  let maxLength = 0;
-  const info: [string, string][] = [];
+function deprecationWarnings(
+  parsed: ParsedArgs,
+  defs: ParsedDefinitions,
+  messages: Messages
+): string[] {
+  const warnings: string[] = [];
+  const warned = new Set<string>();
   for (const key in defs) {
     const d = defs[key];
-    const short = d.short ? `-${d.short}, ` : "";
-    const type = d.type === "boolean" ? "" : ` <${d.type.replace("[]", "")}>`;
-    const long = `--${d.long}`;
-    const left = `${short}${long}${type}`;
-    const extra = d.required
-      ? ` (required)`
-      : d.defaultValue != null &&
-        JSON.stringify(d.defaultValue) !==
-          JSON.stringify(defaultValueOf(d.type))
-      ? ` (default:${JSON.stringify(d.defaultValue)})`
-      : "";
-    const right = `${d.description}${extra}`;
-    info.push([left, right]);
-    maxLength = Math.max(left.length, maxLength);
-  }
-  if (info.length > 0) {
-    s += "Options:\n";
-  }
-  for (const [left, description] of info) {
-    s += `  ${left.padEnd(maxLength)} ${description}\n`;
+    for (const { name } of parsed.values[key]) {
+      const negated = name.startsWith("--no-") ? `--${name.slice(5)}` : null;
+      const found = d.names.find((n) => n.name === name || n.name === negated);
+      if (found?.deprecated == null || warned.has(name)) {
+        continue;
+      }
+      warned.add(name);
+      const replacement = namesOf(d).find(
+        (n) => n.startsWith("--") === found.name.startsWith("--")
+      );
+      warnings.push(
+        found.deprecated
+          ? format(messages.deprecated_hint, { name, hint: found.deprecated })
+          : isDeprecated(d)
+          ? format(messages.deprecated, { name })
+          : format(messages.deprecated_replacement, {
+              name,
+              replacement:
+                negated != null
+                  ? `--no-${d.long}`
+                  : replacement ?? `--${d.long}`,
+            })
+      );
+    }
   }
-  return s;
+  return warnings;
 }
 
-type Help<T extends number | null> = (
-  exit: T
-) => T extends number ? never : string;
-export function parseArgs<T extends Record<string, string>>(
-  args: string[],
-  definitions: T,
-  options?: {
-    usage?: string;
-    exitOnError?: boolean;
-    handleHelp?: boolean;
-    requireTarget?: string | boolean;
+type ConfigOption = {
+  path?: string;
+  key?: string;
+};
+type Config = {
+  path: string;
+  values: Record<string, any>;
+};
+function configPathOf(
+  parsed: ParsedArgs,
+  defs: ParsedDefinitions,
+  config: ConfigOption,
+  env: Record<string, string | undefined>
+): string | null {
+  if (config.key != null) {
+    const d = defs[config.key];
+    if (d == null || d.type !== "string") {
+      throw new SettingsError(
+        `The config key should be a key of string option: ${config.key}`
+      );
+    }
+    let value = argValueOf(d, parsed.values[config.key]).value;
+    if (value == null && d.env != null) {
+      value = env[d.env];
+    }
+    value ??= d.defaultValue;
+    if (typeof value === "string" || typeof value === "number") {
+      return String(value);
+    }
   }
-): {
-  targets: string[];
-  options: {
-    [K in keyof T]: Parse<T[K]>;
-  };
-  rest: string[];
-  help: Help<number | null>;
-} {
-  const { usage, exitOnError, handleHelp, requireTarget } = {
-    usage: null,
-    exitOnError: true,
-    handleHelp: true,
-    requireTarget: false,
-    ...options,
-  };
-  const minimistOptions = {
-    boolean: [] as string[],
-    "--": true,
-  };
-  const defs = parseDefinitions(definitions);
-  for (const key in defs) {
-    const { short, long, type } = defs[key];
-    if (type === "boolean") {
-      if (short != null) {
-        minimistOptions.boolean.push(short);
+  return config.path ?? null;
+}
+// only the own properties (e.g. not `constructor` of `Object.prototype`)
+function configValueOf(config: Config | null, long: string): any {
+  return config != null &&
+    Object.prototype.hasOwnProperty.call(config.values, long)
+    ? config.values[long]
+    : null;
+}
+function loadConfig(path: string, messages: Messages): Config {
+  let text: string;
+  try {
+    text = fs.readFileSync(path, "utf8");
+  } catch (e) {
+    throw invalid(
+      "invalid_config",
+      format(messages.invalid_config_read, { path }),
+      { value: path }
+    );
+  }
+  let values: any;
+  try {
+    values = JSON.parse(text);
+  } catch (e) {
+    throw invalid(
+      "invalid_config",
+      format(messages.invalid_config_parse, { path }),
+      { value: path }
+    );
+  }
+  if (values == null || typeof values !== "object" || Array.isArray(values)) {
+    throw invalid(
+      "invalid_config",
+      format(messages.invalid_config_object, { path }),
+      { value: path }
+    );
+  }
+  return { path, values };
+}
+
+function validateOption(
+  key: string,
+  def: ParsedDefinition,
+  parsed: ParsedArgs,
+  env: Record<string, string | undefined>,
+  config: Config | null,
+  messages: Messages
+): any {
+  const { short, long, type, required, choices, defaultValue } = def;
+  const fromArgs = argValueOf(def, parsed.values[key]);
+  let value = fromArgs.value;
+  const shortName = short != null ? `-${short}` : null;
+  const longName = `--${long}`;
+  let foundName = fromArgs.name;
+  if (value == null && def.env != null && env[def.env] != null) {
+    value = valueFromEnv(type, env[def.env]!);
+    foundName = format(messages.source_env, { env: def.env });
+  }
+  if (value == null && configValueOf(config, long) != null) {
+    value = configValueOf(config, long);
+    foundName = format(messages.source_config, {
+      name: long,
+      path: config!.path,
+    });
+  }
+  if (value == null && def.custom != null && defaultValue != null) {
+    return defaultValue;
+  }
+  if (value == null) {
+    value = defaultValue;
+    foundName = longName;
+  }
+  const name = foundName;
+  const message = (
+    message: keyof Messages,
+    params: Record<string, unknown> = {}
+  ) => format(messages[message], { name, ...params });
+  const expected = (type: "boolean" | "count" | "number" | "string") =>
+    messages[`type_${type}` as const];
+  if (value == null) {
+    if (required) {
+      const n = shortName != null ? [shortName, longName] : [longName];
+      throw invalid(
+        "required",
+        message("required", { name: joinOr(n, messages) }),
+        {
+          key,
+        }
+      );
+    }
+  } else if (type === "count") {
+    if (!Number.isInteger(value) || value < 0) {
+      throw invalid(
+        "type_mismatch",
+        message("type_mismatch", { expected: expected("count") }),
+        { key, name, value }
+      );
+    }
+  } else if (type === "boolean") {
+    if (Array.isArray(value)) {
+      throw invalid("multiple_values", message("multiple_values"), {
+        key,
+        name,
+        value,
+      });
+    }
+    if (typeof value !== "boolean") {
+      throw invalid(
+        "type_mismatch",
+        message("type_mismatch", { expected: expected("boolean") }),
+        {
+          key,
+          name,
+          value,
+        }
+      );
+    }
+  } else if (type === "number") {
+    if (Array.isArray(value)) {
+      throw invalid("multiple_values", message("multiple_values"), {
+        key,
+        name,
+        value,
+      });
+    }
+    if (typeof value !== "number") {
+      throw invalid(
+        "type_mismatch",
+        message("type_mismatch", { expected: expected("number") }),
+        {
+          key,
+          name,
+          value,
+        }
+      );
+    }
+  } else if (type === "number[]") {
+    value = Array.isArray(value) ? value : [value];
+    for (const v of value) {
+      if (typeof v !== "number") {
+        throw invalid(
+          "type_mismatch",
+          message("type_mismatch_each", { expected: expected("number") }),
+          { key, name, value: v }
+        );
       }
-      minimistOptions.boolean.push(long);
     }
-  }
-  const parsed = minimist(args, minimistOptions);
-  const help = (exit: number | null) => {
-    const s = makeHelp(usage, defs);
-    if (exit != null) {
-      exit === 0 ? console.log(s) : console.error(s);
-      process.exit(exit);
+  } else if (type === "string") {
+    if (Array.isArray(value)) {
+      throw invalid("multiple_values", message("multiple_values"), {
+        key,
+        name,
+        value,
+      });
     }
-    return s;
-  };
-  try {
-    const validated = validate(args, parsed, defs, requireTarget);
-    if (handleHelp && validated.options.help === true) {
-      help(0);
+    if (typeof value !== "string") {
+      if (typeof value === "number") {
+        value = String(value);
+      } else {
+        throw invalid(
+          "type_mismatch",
+          message("type_mismatch", { expected: expected("string") }),
+          {
+            key,
+            name,
+            value,
+          }
+        );
+      }
     }
-    return { ...validated, help };
-  } catch (e) {
-    if (e instanceof ValidationError) {
-      if (exitOnError) {
-        if (e.message) {
-          console.error("Error: " + e.message);
+  } else if (type === "string[]") {
+    value = Array.isArray(value) ? value : [value];
+    for (let i = 0; i < value.length; i++) {
+      const v = value[i];
+      if (typeof v !== "string") {
+        if (typeof v === "number") {
+          value[i] = String(v);
+        } else {
+          throw invalid(
+            "type_mismatch",
+            message("type_mismatch_each", { expected: expected("string") }),
+            { key, name, value: v }
+          );
+        }
+      }
+    }
+  } else if (isRecordType(type)) {
+    const entries: [string, unknown][] = [];
+    if (typeof value === "object" && !Array.isArray(value)) {
+      entries.push(...Object.entries(value));
+    } else {
+      for (const v of Array.isArray(value) ? value : [value]) {
+        const matched =
+          typeof v === "string" ? /^([^=]+)=([\s\S]*)$/.exec(v) : null;
+        if (matched == null) {
+          throw invalid(
+            "type_mismatch",
+            message("type_mismatch_value", {
+              expected: messages.type_key_value,
+              value: v,
+            }),
+            { key, name, value: v }
+          );
         }
-        help(1);
+        entries.push([matched[1], matched[2]]);
+      }
+    }
+    const itemType = type === "Record<string,number>" ? "number" : "string";
+    value = {};
+    for (const [k, v] of entries) {
+      const item =
+        typeof v === "string"
+          ? convertValue(itemType, v)
+          : typeof v === "number"
+          ? convertValue(itemType, String(v))
+          : v;
+      if (typeof item !== itemType) {
+        throw invalid(
+          "type_mismatch",
+          message("type_mismatch_each", { expected: expected(itemType) }),
+          { key, name, value: v }
+        );
+      }
+      // defines an own property even if the key is `__proto__`
+      Object.defineProperty(value, k, {
+        value: item,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+  }
+  if (value != null) {
+    if (Array.isArray(value)) {
+      const violation = violationOfItems(value, def.constraints);
+      if (violation != null) {
+        throw invalid(
+          "constraint_violation",
+          message(violation.message, violation.params),
+          { key, name, value }
+        );
+      }
+    }
+    for (const v of valuesOf(value)) {
+      const violation = violationOfValue(v, def.constraints);
+      if (violation != null) {
+        throw invalid(
+          "constraint_violation",
+          message(violation.message, { ...violation.params, value: v }),
+          { key, name, value: v }
+        );
+      }
+    }
+  }
+  if (choices != null && value != null) {
+    for (const v of Array.isArray(value) ? value : [value]) {
+      if (!choices.includes(v)) {
+        throw invalid(
+          "invalid_choice",
+          message("invalid_choice", {
+            choices: choices.join(messages.separator),
+            value: v,
+          }),
+          { key, name, value: v }
+        );
+      }
+    }
+  }
+  if (def.custom != null && value != null) {
+    const custom = def.custom;
+    const parse = (v: string) => {
+      try {
+        return custom.parse(v);
+      } catch (e) {
+        const article = /^[aeiou]/i.test(custom.name) ? "an" : "a";
+        throw invalid(
+          "type_mismatch",
+          message("type_mismatch_value", {
+            expected: format(messages.type_custom, {
+              article,
+              type: custom.name,
+            }),
+            value: v,
+          }),
+          { key, name, value: v }
+        );
+      }
+    };
+    value = Array.isArray(value) ? value.map(parse) : parse(value);
+  }
+  return value;
+}
+
+function editDistance(a: string, b: string): number {
+  const d: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    d[i] = [i];
+  }
+  for (let j = 0; j <= b.length; j++) {
+    d[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
       }
     }
-    throw e;
+  }
+  return d[a.length][b.length];
+}
+function suggest(name: string, candidates: string[]): string[] {
+  const body = name.replace(/^-+/, "");
+  const threshold = Math.max(1, Math.floor(body.length / 3));
+  let min = Infinity;
+  let result: string[] = [];
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance > threshold || distance >= body.length) {
+      continue;
+    }
+    if (distance < min) {
+      min = distance;
+      result = [candidate];
+    } else if (distance === min) {
+      result.push(candidate);
+    }
+  }
+  return result;
+}
+function withSuggestions(
+  message: string,
+  suggestions: string[],
+  messages: Messages
+): string {
+  return suggestions.length > 0
+    ? format(messages.did_you_mean, {
+        message,
+        suggestions: joinOr(suggestions, messages),
+      })
+    : message;
+}
+function unknownOptionMessage(
+  name: string,
+  suggestions: string[],
+  messages: Messages
+): string {
+  return withSuggestions(
+    format(messages.unknown_option, { name }),
+    suggestions,
+    messages
+  );
+}
+
+// `V` is the types of the options, which the implied value should match
+type Relations<K extends string, V = any> = {
+  conflicts?: readonly (readonly [K, K])[];
+  requires?: readonly (readonly [K, K])[];
+  implies?: readonly {
+    [B in K]: readonly [K, B, NonNullable<V[B & keyof V]>];
+  }[K][];
+  exactlyOne?: readonly (readonly [K, ...K[]])[] | [];
+  atLeastOne?: readonly (readonly [K, ...K[]])[] | [];
+};
+type NarrowGroup<O, G> = {
+  [K in Extract<G, keyof O>]: {
+    [Q in keyof O]: Q extends K
+      ? NonNullable<O[Q]>
+      : Q extends G
+      ? null extends O[Q]
+        ? null
+        : O[Q]
+      : O[Q];
+  };
+}[Extract<G, keyof O>];
+type NarrowExactlyOne<O, Gs> = Gs extends readonly [infer G, ...infer Rest]
+  ? NarrowExactlyOne<
+      NarrowGroup<O, G extends readonly unknown[] ? G[number] : never>,
+      Rest
+    >
+  : O;
+type RelatedOptions<O, R> = R extends { exactlyOne: infer G }
+  ? NarrowExactlyOne<O, G>
+  : O;
+function checkRelations(
+  relations: Relations<string>,
+  defs: ParsedDefinitions
+): void {
+  const groups: (readonly string[])[] = [
+    ...(relations.conflicts ?? []),
+    ...(relations.requires ?? []),
+    ...(relations.implies ?? []).map(([a, b]) => [a, b]),
+    ...(relations.exactlyOne ?? []),
+    ...(relations.atLeastOne ?? []),
+  ];
+  const keys: string[] = [];
+  for (const group of groups) {
+    keys.push(...group);
+  }
+  for (const key of keys) {
+    if (!(key in defs)) {
+      throw new SettingsError(`Unknown key in relations: ${key}`);
+    }
+  }
+  for (const [, b, value] of relations.implies ?? []) {
+    const d = defs[b];
+    // the value of custom types cannot be checked as it is already converted
+    if (d.custom != null) {
+      continue;
+    }
+    const values = valuesOf(value);
+    if (
+      !isDefaultValueCorrectType(d.type, value) ||
+      (d.choices != null && values.some((v) => !d.choices!.includes(v))) ||
+      violationOfItems(values, d.constraints) != null ||
+      values.some((v) => violationOfValue(v, d.constraints) != null)
+    ) {
+      throw new SettingsError(
+        `Invalid implied value of ${b}: ${JSON.stringify(value)}`
+      );
+    }
+  }
+}
+function isGiven(
+  key: string,
+  def: ParsedDefinition,
+  parsed: ParsedArgs,
+  env: Record<string, string | undefined>,
+  config: Config | null
+): boolean {
+  const { long } = def;
+  return (
+    parsed.values[key].length > 0 ||
+    (def.env != null && env[def.env] != null) ||
+    configValueOf(config, long) != null
+  );
+}
+function validateRelations(
+  options: Record<string, any>,
+  given: Set<string>,
+  defs: ParsedDefinitions,
+  relations: Relations<string>,
+  messages: Messages
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const nameOf = (key: string) => `--${defs[key].long}`;
+  // an explicit `false` (e.g. `--no-json`) does not count as using the option
+  const isUsed = (key: string) =>
+    given.has(key) && !(defs[key].type === "boolean" && options[key] === false);
+  for (const [a, b, value] of relations.implies ?? []) {
+    if (isUsed(a) && !given.has(b)) {
+      options[b] = value;
+      given.add(b);
+    }
+  }
+  for (const [a, b] of relations.requires ?? []) {
+    if (isUsed(a) && !isUsed(b)) {
+      issues.push(
+        issueOf(
+          "missing_dependency",
+          format(messages.missing_dependency, {
+            name: nameOf(a),
+            other: nameOf(b),
+          }),
+          { key: a, name: nameOf(a), value: options[a] }
+        )
+      );
+    }
+  }
+  for (const [a, b] of relations.conflicts ?? []) {
+    if (isUsed(a) && isUsed(b)) {
+      issues.push(
+        issueOf(
+          "conflict",
+          format(messages.conflict, { name: nameOf(a), other: nameOf(b) }),
+          { key: a, name: nameOf(a), value: options[a] }
+        )
+      );
+    }
+  }
+  for (const group of relations.exactlyOne ?? []) {
+    const found = group.filter(isUsed);
+    if (found.length !== 1) {
+      const names = group.map(nameOf).join(messages.separator);
+      issues.push(
+        issueOf(
+          "group_violation",
+          format(messages.group_violation_exactly_one, { names }),
+          { value: found.map(nameOf) }
+        )
+      );
+    }
+  }
+  for (const group of relations.atLeastOne ?? []) {
+    if (!group.some(isUsed)) {
+      const names = group.map(nameOf).join(messages.separator);
+      issues.push(
+        issueOf(
+          "group_violation",
+          format(messages.group_violation_at_least_one, { names })
+        )
+      );
+    }
+  }
+  return issues;
+}
+
+// parsing is synchronous, so the answers are read from a file descriptor rather than
+// a stream's events (any stream with an `fd` works, e.g. `process.stdin`)
+export type PromptInput = { fd: number; isTTY?: boolean };
+export type PromptOutput = { write(s: string): unknown };
+type Prompt = { input: PromptInput; output: PromptOutput };
+type PromptOption = boolean | { input?: PromptInput; output?: PromptOutput };
+function promptOf(option: PromptOption, io: IO): Prompt | null {
+  if (option === false) {
+    return null;
+  }
+  const { input = process.stdin, output = io.stdout } =
+    option === true ? {} : option;
+  return input.isTTY ? { input, output } : null;
+}
+// a TTY may be in non-blocking mode, so the terminal is opened again to wait for the answer
+function openBlocking(fd: number): number | null {
+  if (!tty.isatty(fd)) {
+    return null;
+  }
+  try {
+    return fs.openSync("/dev/tty", "r");
+  } catch (e) {
+    return null;
+  }
+}
+function readLine(fd: number): string | null {
+  const blocking = openBlocking(fd);
+  try {
+    return readLineFrom(blocking ?? fd);
+  } finally {
+    if (blocking != null) {
+      fs.closeSync(blocking);
+    }
+  }
+}
+function readLineFrom(fd: number): string | null {
+  const buffer = Buffer.alloc(1);
+  const bytes: number[] = [];
+  const sleep = new Int32Array(new SharedArrayBuffer(4));
+  while (true) {
+    let n: number;
+    try {
+      n = fs.readSync(fd, buffer, 0, 1, null);
+    } catch (e: any) {
+      if (e.code === "EAGAIN") {
+        // no input yet (e.g. no `/dev/tty` on Windows), wait instead of spinning
+        Atomics.wait(sleep, 0, 0, 10);
+        continue;
+      }
+      throw e;
+    }
+    if (n === 0) {
+      if (bytes.length === 0) {
+        return null;
+      }
+      break;
+    }
+    if (buffer[0] === 0x0a) {
+      break;
+    }
+    bytes.push(buffer[0]);
+  }
+  return Buffer.from(bytes).toString("utf8").replace(/\r$/, "");
+}
+function answerToValue(def: ParsedDefinition, answer: string): any {
+  if (def.type === "boolean") {
+    const a = answer.toLowerCase();
+    return convertValue("boolean", a === "y" ? "yes" : a === "n" ? "no" : a);
+  }
+  if (def.choices != null && /^\d+$/.test(answer)) {
+    const choice = def.choices[Number(answer) - 1];
+    if (choice != null) {
+      return def.type === "string[]" ? [choice] : choice;
+    }
+  }
+  return valueFromEnv(def.type, answer);
+}
+function promptOption(
+  key: string,
+  def: ParsedDefinition,
+  parsed: ParsedArgs,
+  env: Record<string, string | undefined>,
+  config: Config | null,
+  prompt: Prompt,
+  messages: Messages
+): { value: any } | null {
+  const { output, input } = prompt;
+  const name = `--${def.long}`;
+  const label = def.description ? `${def.description} (${name})` : name;
+  if (def.choices != null) {
+    output.write(`${label}:\n`);
+    def.choices.forEach((choice, i) => output.write(`  ${i + 1}) ${choice}\n`));
+  }
+  const question =
+    def.type === "boolean"
+      ? format(messages.prompt_yes_no, { label })
+      : def.choices != null
+      ? format(messages.prompt_select, { count: def.choices.length })
+      : `${label}: `;
+  while (true) {
+    output.write(question);
+    const answer = readLine(input.fd);
+    if (answer == null) {
+      return null;
+    }
+    if (answer.trim() === "") {
+      continue;
+    }
+    const values = {
+      ...parsed.values,
+      [key]: [{ name, value: answerToValue(def, answer), index: -1 }],
+    };
+    try {
+      return {
+        value: validateOption(
+          key,
+          def,
+          { ...parsed, values },
+          env,
+          config,
+          messages
+        ),
+      };
+    } catch (e) {
+      if (!(e instanceof ValidationError)) {
+        throw e;
+      }
+      for (const issue of e.issues) {
+        output.write(format(messages.error, { message: issue.message }) + "\n");
+      }
+    }
+  }
+}
+
+function validate(
+  parsed: ParsedArgs,
+  defs: ParsedDefinitions,
+  requireTarget: string | boolean,
+  env: Record<string, string | undefined>,
+  config: Config | null,
+  relations: Relations<string> = {},
+  prompt: Prompt | null = null,
+  messages: Messages = defaultMessages,
+  positionals: ParsedPositionals = []
+): {
+  targets: string[];
+  options: any;
+  positionals: Record<string, any>;
+  rest: string[];
+} {
+  const targets = parsed.targets.map((target) => target.value);
+  const rest = parsed.rest;
+  const issues: ValidationIssue[] = [];
+  if (requireTarget && targets.length === 0) {
+    const message = typeof requireTarget === "string" ? requireTarget : "";
+    issues.push(issueOf("target_required", message));
+  }
+  const result = {} as Record<string, any>;
+  const given = new Set<string>();
+  const longToKey = new Map<string, string>();
+  for (const key in defs) {
+    longToKey.set(defs[key].long, key);
+    if (isGiven(key, defs[key], parsed, env, config)) {
+      given.add(key);
+    }
+    try {
+      result[key] = validateOption(
+        key,
+        defs[key],
+        parsed,
+        env,
+        config,
+        messages
+      );
+    } catch (e) {
+      if (!(e instanceof ValidationError)) {
+        throw e;
+      }
+      if (prompt != null && e.issues[0].code === "required") {
+        const answer = promptOption(
+          key,
+          defs[key],
+          parsed,
+          env,
+          config,
+          prompt,
+          messages
+        );
+        if (answer != null) {
+          result[key] = answer.value;
+          given.add(key);
+          continue;
+        }
+      }
+      const occurrences = parsed.values[key];
+      for (const issue of e.issues) {
+        if (occurrences.length > 0) {
+          const found = occurrences.find((o) => o.value === issue.value);
+          issue.index = (found ?? occurrences[0]).index;
+        }
+      }
+      issues.push(...e.issues);
+    }
+  }
+  const candidates: string[] = [];
+  for (const key in defs) {
+    candidates.push(...namesOf(defs[key]));
+  }
+  for (const { name, value, index } of parsed.unknowns) {
+    const suggestions = suggest(name, candidates);
+    issues.push(
+      issueOf(
+        "unknown_option",
+        unknownOptionMessage(name, suggestions, messages),
+        {
+          name,
+          value,
+          suggestions,
+          index,
+        }
+      )
+    );
+  }
+  if (config != null) {
+    for (const key in config.values) {
+      if (!longToKey.has(key)) {
+        const suggestions = suggest(key, [...longToKey.keys()]);
+        const message = withSuggestions(
+          format(messages.unknown_option_in_config, {
+            path: config.path,
+            name: key,
+          }),
+          suggestions,
+          messages
+        );
+        issues.push(
+          issueOf("unknown_option", message, {
+            name: key,
+            value: config.values[key],
+            suggestions,
+          })
+        );
+      }
+    }
+  }
+  issues.push(...validateRelations(result, given, defs, relations, messages));
+  const positionalValues = {} as Record<string, any>;
+  issues.push(
+    ...validatePositionals(positionalValues, targets, positionals, messages)
+  );
+  if (issues.length > 0) {
+    throw aggregate(issues);
+  }
+  return {
+    targets,
+    options: result as any,
+    positionals: positionalValues,
+    rest,
+  };
+}
+
+function validatePositionals(
+  result: Record<string, any>,
+  targets: string[],
+  positionals: ParsedPositionals,
+  messages: Messages
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (positionals.length === 0) {
+    return issues;
+  }
+  const convert = (p: ParsedPositional, value: any) => {
+    if (p.type === "number") {
+      value = convertValue("number", value);
+      if (typeof value !== "number") {
+        issues.push(
+          issueOf(
+            "type_mismatch",
+            format(messages.type_mismatch_value, {
+              name: `<${p.name}>`,
+              expected: messages.type_number,
+              value,
+            }),
+            { key: p.name, name: `<${p.name}>`, value }
+          )
+        );
+      }
+      return value;
+    }
+    return String(value);
+  };
+  const required = (p: ParsedPositional) =>
+    issueOf("required", format(messages.required, { name: `<${p.name}>` }), {
+      key: p.name,
+      name: `<${p.name}>`,
+    });
+  let i = 0;
+  for (const p of positionals) {
+    if (p.variadic) {
+      const values = targets.slice(i);
+      i = targets.length;
+      if (p.required && values.length === 0) {
+        issues.push(required(p));
+      }
+      result[p.name] = values.map((value) => convert(p, value));
+    } else if (i < targets.length) {
+      result[p.name] = convert(p, targets[i++]);
+    } else if (p.required) {
+      issues.push(required(p));
+    } else {
+      result[p.name] = null;
+    }
+  }
+  if (i < targets.length) {
+    issues.push(
+      issueOf(
+        "too_many_arguments",
+        format(messages.too_many_arguments, {
+          values: targets.slice(i).join(" "),
+        }),
+        { value: targets.slice(i) }
+      )
+    );
+  }
+  return issues;
+}
+
+function formatConstraints(c: Constraints): string {
+  const items: string[] = [];
+  if (c.integer) {
+    items.push("integer");
+  }
+  if (c.min != null) {
+    items.push(`min:${c.min}`);
+  }
+  if (c.max != null) {
+    items.push(`max:${c.max}`);
+  }
+  if (c.pattern != null) {
+    items.push(`pattern:${c.pattern}`);
+  }
+  if (c.minItems != null) {
+    items.push(`minItems:${c.minItems}`);
+  }
+  if (c.maxItems != null) {
+    items.push(`maxItems:${c.maxItems}`);
+  }
+  return items.length > 0 ? ` (${items.join(", ")})` : "";
+}
+function makeUsage(name: string, positionals: ParsedPositionals): string {
+  const args = positionals.map((p) => {
+    const s = p.required ? `<${p.name}>` : `[${p.name}]`;
+    return p.variadic ? `${s}...` : s;
+  });
+  return [name, "[<options>]", ...args].join(" ");
+}
+export type HelpContext = {
+  usage: string | null;
+  name: string;
+  definitions: ParsedDefinitions;
+  positionals: ParsedPositionals;
+  commands: [string, string][];
+};
+export type HelpOptions = {
+  sections?: { title: string; keys: string[] }[];
+  wrap?: boolean | number;
+  examples?: string[];
+  epilogue?: string;
+  color?: boolean | "auto";
+  render?: (context: HelpContext) => string;
+};
+function checkSections(help: HelpOptions, keys: Set<string>): void {
+  for (const section of help.sections ?? []) {
+    for (const key of section.keys) {
+      if (!keys.has(key)) {
+        throw new SettingsError(
+          `Unknown key in section "${section.title}": ${key}`
+        );
+      }
+    }
+  }
+}
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(" ")) {
+    if (line.length > 0 && line.length + 1 + word.length > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line.length > 0 ? `${line} ${word}` : word;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+type HelpStyle = {
+  width: number | null;
+  title: (s: string) => string;
+  name: (s: string) => string;
+};
+function helpStyleOf(help: HelpOptions, output: Writer): HelpStyle {
+  const width =
+    help.wrap === true
+      ? output.columns ?? 80
+      : typeof help.wrap === "number"
+      ? help.wrap
+      : null;
+  const color = help.color === "auto" ? output.isTTY === true : !!help.color;
+  return {
+    width,
+    title: (s) => (color ? `\x1b[1m${s}\x1b[0m` : s),
+    name: (s) => (color ? `\x1b[36m${s}\x1b[0m` : s),
+  };
+}
+function formatRows(
+  rows: [string, string][],
+  maxLength: number,
+  style: HelpStyle
+): string {
+  let s = "";
+  const indent = maxLength + 3;
+  for (const [left, right] of rows) {
+    const lines =
+      style.width != null
+        ? wrapText(right, Math.max(style.width - indent, 20))
+        : [right];
+    s += `  ${style.name(left.padEnd(maxLength))} ${lines[0]}\n`;
+    for (const line of lines.slice(1)) {
+      s += `${" ".repeat(indent)}${line}\n`;
+    }
+  }
+  return s;
+}
+function optionRowOf(
+  d: ParsedDefinition,
+  hidden: boolean,
+  messages: Messages
+): [string, string] {
+  const names = namesOf(d, hidden)
+    .map((n) =>
+      n.startsWith("--") && d.type === "boolean" && d.defaultValue === true
+        ? `--[no-]${n.slice(2)}`
+        : n
+    )
+    .join(", ");
+  const type =
+    d.type === "boolean" || d.type === "count"
+      ? ""
+      : d.choices != null
+      ? ` <${d.choices.join("|")}>`
+      : d.custom != null
+      ? ` <${d.custom.name}>`
+      : isRecordType(d.type)
+      ? " <key=value>"
+      : ` <${d.type.replace("[]", "")}>`;
+  const left = `${names}${type}`;
+  const extra = d.required
+    ? ` ${messages.help_required}`
+    : d.defaultValue != null &&
+      JSON.stringify(d.defaultValue) !== JSON.stringify(defaultValueOf(d.type))
+    ? ` ${format(messages.help_default, {
+        value: d.custom?.rawDefaultValue ?? JSON.stringify(d.defaultValue),
+      })}`
+    : "";
+  const env =
+    d.env != null ? ` ${format(messages.help_env, { env: d.env })}` : "";
+  const repeatable = d.type === "count" ? ` ${messages.help_repeatable}` : "";
+  const constraints = formatConstraints(d.constraints);
+  const hint = d.names.find((n) => n.deprecated)?.deprecated;
+  const deprecated = !isDeprecated(d)
+    ? ""
+    : hint
+    ? ` ${format(messages.help_deprecated_hint, { hint })}`
+    : ` ${messages.help_deprecated}`;
+  const right = `${d.description}${repeatable}${constraints}${extra}${env}${deprecated}`;
+  return [left, right];
+}
+function makeHelp(
+  usage: string | null,
+  defs: ParsedDefinitions,
+  extra: {
+    commands?: [string, string][];
+    positionals?: ParsedPositionals;
+    name?: string;
+    help?: HelpOptions;
+    output?: Writer;
+    hidden?: boolean;
+    messages?: Messages;
+  } = {}
+) {
+  const {
+    commands = [],
+    positionals = [],
+    name = "",
+    help = {},
+    output = process.stdout,
+    hidden = false,
+    messages = defaultMessages,
+  } = extra;
+  if (!hidden) {
+    defs = visibleDefinitions(defs);
+  }
+  if (usage == null && positionals.length > 0) {
+    usage = makeUsage(name, positionals);
+  }
+  if (help.render != null) {
+    return help.render({
+      usage,
+      name,
+      definitions: defs,
+      positionals,
+      commands,
+    });
+  }
+  const style = helpStyleOf(help, output);
+  let s = usage ? `${style.title(messages.help_usage)} ${usage}\n` : "";
+  if (positionals.length > 0) {
+    const maxNameLength = Math.max(...positionals.map((p) => p.name.length));
+    s += `${style.title(messages.help_arguments)}\n`;
+    s += formatRows(
+      positionals.map((p) => [p.name, p.description]),
+      maxNameLength,
+      style
+    );
+  }
+  if (commands.length > 0) {
+    const maxNameLength = Math.max(...commands.map(([name]) => name.length));
+    s += `${style.title(messages.help_commands)}\n`;
+    s += formatRows(commands, maxNameLength, style);
+  }
+  const sections = (help.sections ?? [])
+    .map(({ title, keys }) => ({
+      title,
+      keys: keys.filter((key) => key in defs),
+    }))
+    .filter(({ keys }) => keys.length > 0);
+  const grouped = new Set<string>();
+  for (const section of sections) {
+    section.keys.forEach((key) => grouped.add(key));
+  }
+  const ungrouped = Object.keys(defs).filter((key) => !grouped.has(key));
+  let maxLength = 0;
+  const rows: Record<string, [string, string]> = {};
+  for (const key in defs) {
+    rows[key] = optionRowOf(defs[key], hidden, messages);
+    maxLength = Math.max(rows[key][0].length, maxLength);
+  }
+  for (const { title, keys } of [
+    { title: messages.help_options, keys: ungrouped },
+    ...sections.map(({ title, keys }) => ({ title: `${title}:`, keys })),
+  ]) {
+    if (keys.length > 0) {
+      s += `${style.title(title)}\n`;
+      s += formatRows(
+        keys.map((key) => rows[key]),
+        maxLength,
+        style
+      );
+    }
+  }
+  if (help.examples != null && help.examples.length > 0) {
+    s += `${style.title(messages.help_examples)}\n`;
+    for (const example of help.examples) {
+      s += `  ${example}\n`;
+    }
+  }
+  if (help.epilogue != null) {
+    s += `\n${help.epilogue}\n`;
+  }
+  return s;
+}
+
+type Shell = "bash" | "zsh" | "fish";
+type CompletionCommand = {
+  name: string;
+  description: string;
+  defs: ParsedDefinitions;
+};
+function completionValueOf(
+  d: ParsedDefinition
+): "none" | "any" | "file" | "choices" {
+  if (d.type === "boolean" || d.type === "count") {
+    return "none";
+  }
+  if (d.choices != null) {
+    return "choices";
+  }
+  if (d.type === "string" || d.type === "string[]") {
+    return "file";
+  }
+  return "any";
+}
+// deprecated names are hidden unless the option itself is deprecated
+function namesOf(d: ParsedDefinition, hidden = false): string[] {
+  const visible = d.names.filter((n) => hidden || !n.hidden);
+  const names = visible.filter((n) => n.deprecated == null);
+  return (names.length > 0 ? names : visible).map((n) => n.name);
+}
+function isHidden(d: ParsedDefinition): boolean {
+  return d.names.every((n) => n.hidden);
+}
+function visibleDefinitions(defs: ParsedDefinitions): ParsedDefinitions {
+  const result: ParsedDefinitions = {};
+  for (const key in defs) {
+    if (!isHidden(defs[key])) {
+      result[key] = defs[key];
+    }
+  }
+  return result;
+}
+function isDeprecated(d: ParsedDefinition): boolean {
+  return d.names.every((n) => n.deprecated != null);
+}
+function makeBashCompletionBody(
+  defs: ParsedDefinitions,
+  commands: CompletionCommand[],
+  indent: string
+): string {
+  let cases = "";
+  for (const key in defs) {
+    const d = defs[key];
+    const value = completionValueOf(d);
+    if (value === "none") {
+      continue;
+    }
+    cases += `${indent}  ${namesOf(d).join("|")})\n`;
+    if (value === "choices") {
+      cases += `${indent}    COMPREPLY=($(compgen -W "${d.choices!.join(
+        " "
+      )}" -- "$cur"))\n`;
+    } else if (value === "file") {
+      cases += `${indent}    COMPREPLY=($(compgen -f -- "$cur"))\n`;
+    }
+    cases += `${indent}    return 0\n`;
+    cases += `${indent}    ;;\n`;
+  }
+  let s = "";
+  if (cases) {
+    s += `${indent}case "$prev" in\n${cases}${indent}esac\n`;
+  }
+  const names: string[] = [];
+  for (const key in defs) {
+    names.push(...namesOf(defs[key]));
+  }
+  s += `${indent}if [[ "$cur" == -* ]]; then\n`;
+  s += `${indent}  COMPREPLY=($(compgen -W "${names.join(" ")}" -- "$cur"))\n`;
+  s += `${indent}else\n`;
+  if (commands.length > 0) {
+    const commandNames = commands.map((c) => c.name).join(" ");
+    s += `${indent}  COMPREPLY=($(compgen -W "${commandNames}" -- "$cur"))\n`;
+  } else {
+    s += `${indent}  COMPREPLY=($(compgen -f -- "$cur"))\n`;
+  }
+  s += `${indent}fi\n`;
+  return s;
+}
+function makeBashCompletion(
+  name: string,
+  defs: ParsedDefinitions,
+  commands: CompletionCommand[]
+): string {
+  const func = `_${name.replace(/\W/g, "_")}_completion`;
+  let s = `${func}() {\n`;
+  s += `  local cur prev command i\n`;
+  s += `  cur="\${COMP_WORDS[COMP_CWORD]}"\n`;
+  s += `  prev="\${COMP_WORDS[COMP_CWORD-1]}"\n`;
+  if (commands.length > 0) {
+    const commandNames = commands.map((c) => c.name).join("|");
+    s += `  command=""\n`;
+    s += `  for ((i = 1; i < COMP_CWORD; i++)); do\n`;
+    s += `    case "\${COMP_WORDS[i]}" in\n`;
+    s += `      ${commandNames})\n`;
+    s += `        command="\${COMP_WORDS[i]}"\n`;
+    s += `        break\n`;
+    s += `        ;;\n`;
+    s += `    esac\n`;
+    s += `  done\n`;
+    s += `  case "$command" in\n`;
+    for (const command of commands) {
+      s += `    ${command.name})\n`;
+      s += makeBashCompletionBody(command.defs, [], "      ");
+      s += `      ;;\n`;
+    }
+    s += `    *)\n`;
+    s += makeBashCompletionBody(defs, commands, "      ");
+    s += `      ;;\n`;
+    s += `  esac\n`;
+  } else {
+    s += makeBashCompletionBody(defs, [], "  ");
+  }
+  s += `}\n`;
+  s += `complete -F ${func} ${name}\n`;
+  return s;
+}
+function escapeZsh(s: string): string {
+  return s.replace(/([\[\]:\\])/g, "\\$1").replace(/'/g, `'\\''`);
+}
+function makeZshArguments(defs: ParsedDefinitions): string[] {
+  const specs: string[] = [];
+  for (const key in defs) {
+    const d = defs[key];
+    const names = namesOf(d);
+    const multiple =
+      d.type === "count" ||
+      d.type === "number[]" ||
+      d.type === "string[]" ||
+      isRecordType(d.type);
+    const prefix =
+      names.length > 1
+        ? multiple
+          ? `'*'{${names.join(",")}}`
+          : `'(${names.join(" ")})'{${names.join(",")}}`
+        : multiple
+        ? `'*${names[0]}`
+        : `'${names[0]}`;
+    const description = `[${escapeZsh(d.description)}]`;
+    const value = completionValueOf(d);
+    const action =
+      value === "none"
+        ? ""
+        : value === "choices"
+        ? `:${d.long}:(${d.choices!.map(escapeZsh).join(" ")})`
+        : value === "file"
+        ? `:${d.long}:_files`
+        : `:${d.long}: `;
+    specs.push(
+      names.length > 1
+        ? `${prefix}'${description}${action}'`
+        : `${prefix}${description}${action}'`
+    );
+  }
+  return specs;
+}
+function makeZshCompletion(
+  name: string,
+  defs: ParsedDefinitions,
+  commands: CompletionCommand[]
+): string {
+  const func = `_${name.replace(/\W/g, "_")}`;
+  const join = (specs: string[], indent: string) =>
+    specs.map((spec) => ` \\\n${indent}${spec}`).join("");
+  let s = `#compdef ${name}\n`;
+  s += `${func}() {\n`;
+  if (commands.length > 0) {
+    s += `  local line state\n`;
+    s += `  _arguments -C -s${join(
+      [...makeZshArguments(defs), `'1:command:->command'`, `'*::arg:->args'`],
+      "    "
+    )}\n`;
+    s += `  case $state in\n`;
+    s += `    command)\n`;
+    s += `      _values 'command'${join(
+      commands.map(
+        (c) => `'${escapeZsh(c.name)}[${escapeZsh(c.description)}]'`
+      ),
+      "        "
+    )}\n`;
+    s += `      ;;\n`;
+    s += `    args)\n`;
+    s += `      case $line[1] in\n`;
+    for (const command of commands) {
+      s += `        ${command.name})\n`;
+      s += `          _arguments -s${join(
+        [...makeZshArguments(command.defs), `'*:file:_files'`],
+        "            "
+      )}\n`;
+      s += `          ;;\n`;
+    }
+    s += `      esac\n`;
+    s += `      ;;\n`;
+    s += `  esac\n`;
+  } else {
+    s += `  _arguments -s${join(
+      [...makeZshArguments(defs), `'*:file:_files'`],
+      "    "
+    )}\n`;
+  }
+  s += `}\n`;
+  s += `compdef ${func} ${name}\n`;
+  return s;
+}
+function escapeFish(s: string): string {
+  return `'${s.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+function makeFishCompletionLines(
+  name: string,
+  defs: ParsedDefinitions,
+  condition: string | null
+): string {
+  let s = "";
+  for (const key in defs) {
+    const d = defs[key];
+    const words = ["complete", "-c", name];
+    if (condition != null) {
+      words.push("-n", escapeFish(condition));
+    }
+    for (const n of namesOf(d)) {
+      words.push(n.startsWith("--") ? "-l" : "-s", n.replace(/^-+/, ""));
+    }
+    const value = completionValueOf(d);
+    if (value === "choices") {
+      words.push("-x", "-a", escapeFish(d.choices!.join(" ")));
+    } else if (value === "file") {
+      words.push("-r");
+    } else if (value === "any") {
+      words.push("-x");
+    }
+    if (d.description) {
+      words.push("-d", escapeFish(d.description));
+    }
+    s += words.join(" ") + "\n";
+  }
+  return s;
+}
+function makeFishCompletion(
+  name: string,
+  defs: ParsedDefinitions,
+  commands: CompletionCommand[]
+): string {
+  let s = makeFishCompletionLines(name, defs, null);
+  for (const command of commands) {
+    const words = ["complete", "-c", name, "-n", "__fish_use_subcommand"];
+    words.push("-f", "-a", escapeFish(command.name));
+    if (command.description) {
+      words.push("-d", escapeFish(command.description));
+    }
+    s += words.join(" ") + "\n";
+  }
+  for (const command of commands) {
+    const commandOnly: ParsedDefinitions = {};
+    for (const key in command.defs) {
+      if (!(key in defs)) {
+        commandOnly[key] = command.defs[key];
+      }
+    }
+    s += makeFishCompletionLines(
+      name,
+      commandOnly,
+      `__fish_seen_subcommand_from ${command.name}`
+    );
+  }
+  return s;
+}
+function makeCompletionScript(
+  shell: Shell,
+  name: string,
+  defs: ParsedDefinitions,
+  commands: CompletionCommand[] = []
+): string {
+  defs = visibleDefinitions(defs);
+  commands = commands.map((c) => ({ ...c, defs: visibleDefinitions(c.defs) }));
+  switch (shell) {
+    case "bash":
+      return makeBashCompletion(name, defs, commands);
+    case "zsh":
+      return makeZshCompletion(name, defs, commands);
+    case "fish":
+      return makeFishCompletion(name, defs, commands);
+  }
+}
+function completionCommandsOf(
+  commands: Record<string, CommandDefinition>,
+  globals: Record<string, string>,
+  customTypes: CustomTypes
+): CompletionCommand[] {
+  return Object.keys(commands).map((name) => ({
+    name,
+    description: commands[name].description ?? "",
+    defs: parseDefinitions(
+      { ...globals, ...commands[name].definitions },
+      customTypes
+    ),
+  }));
+}
+export function makeCompletion(
+  shell: Shell,
+  name: string,
+  definitions: Record<string, string>,
+  customTypes: CustomTypes = {}
+): string {
+  return makeCompletionScript(
+    shell,
+    name,
+    parseDefinitions(definitions, customTypes)
+  );
+}
+export function makeCommandsCompletion(
+  shell: Shell,
+  name: string,
+  commands: Record<string, CommandDefinition>,
+  globals: Record<string, string> = {},
+  customTypes: CustomTypes = {}
+): string {
+  return makeCompletionScript(
+    shell,
+    name,
+    parseDefinitions(globals, customTypes),
+    completionCommandsOf(commands, globals, customTypes)
+  );
+}
+export type JsonSchema = {
+  $schema?: string;
+  type?: "object" | "array" | "boolean" | "integer" | "number" | "string";
+  description?: string;
+  default?: unknown;
+  enum?: string[];
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+};
+function jsonSchemaOf(d: ParsedDefinition): JsonSchema {
+  const { type, choices, constraints: c } = d;
+  const item: JsonSchema = {};
+  if (type === "boolean") {
+    item.type = "boolean";
+  } else if (type === "count") {
+    item.type = "integer";
+    item.minimum = 0;
+  } else if (
+    type === "number" ||
+    type === "number[]" ||
+    type === "Record<string,number>"
+  ) {
+    item.type = c.integer ? "integer" : "number";
+  } else {
+    item.type = "string";
+  }
+  if (choices != null) {
+    item.enum = choices;
+  }
+  if (c.min != null) {
+    item.minimum = c.min;
+  }
+  if (c.max != null) {
+    item.maximum = c.max;
+  }
+  if (c.pattern != null) {
+    item.pattern = c.pattern.source;
+  }
+  const schema: JsonSchema =
+    type === "number[]" || type === "string[]"
+      ? { type: "array", items: item }
+      : isRecordType(type)
+      ? { type: "object", additionalProperties: item }
+      : item;
+  if (c.minItems != null) {
+    schema.minItems = c.minItems;
+  }
+  if (c.maxItems != null) {
+    schema.maxItems = c.maxItems;
+  }
+  if (d.description) {
+    schema.description = d.description;
+  }
+  if (d.custom != null) {
+    if (d.custom.rawDefaultValue != null && type === "string") {
+      schema.default = d.custom.rawDefaultValue;
+    }
+  } else if (d.defaultValue != null) {
+    schema.default = d.defaultValue;
+  }
+  return schema;
+}
+export function makeJsonSchema(
+  definitions: Record<string, string>,
+  customTypes: CustomTypes = {}
+): JsonSchema {
+  const defs = parseDefinitions(definitions, customTypes);
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const key in defs) {
+    const d = defs[key];
+    properties[d.long] = jsonSchemaOf(d);
+    if (d.required) {
+      required.push(d.long);
+    }
+  }
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    type: "object",
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false,
+  };
+}
+
+export type Writer = {
+  write(s: string): unknown;
+  isTTY?: boolean;
+  columns?: number;
+};
+export type ProcessIO = {
+  stdout?: Writer;
+  stderr?: Writer;
+  exit?: (code: number) => never;
+};
+type IO = Required<ProcessIO>;
+function ioOf(option: ProcessIO): IO {
+  const {
+    stdout = process.stdout,
+    stderr = process.stderr,
+    exit = (code: number) => process.exit(code),
+  } = option;
+  return { stdout, stderr, exit };
+}
+
+function warnOf(
+  warn: ((message: string) => void) | null,
+  io: IO,
+  messages: Messages
+): (message: string) => void {
+  return (
+    warn ??
+    ((message) => io.stderr.write(format(messages.warning, { message }) + "\n"))
+  );
+}
+
+type VersionOption = string | boolean;
+function withVersion(
+  definitions: Record<string, string>,
+  version: VersionOption,
+  messages: Messages
+): Record<string, string> {
+  if (version === false || "version" in definitions) {
+    return definitions;
+  }
+  return {
+    ...definitions,
+    version: `--version:boolean; ${messages.help_version}`,
+  };
+}
+function scriptDir(): string {
+  const script = process.argv[1];
+  if (script == null) {
+    return process.cwd();
+  }
+  try {
+    // resolves the symlink in node_modules/.bin
+    return path.dirname(fs.realpathSync(script));
+  } catch (e) {
+    // the extension may be omitted (e.g. `node dist/cli`)
+    return path.dirname(path.resolve(script));
+  }
+}
+function findVersion(dir: string): string {
+  while (true) {
+    const file = path.join(dir, "package.json");
+    if (fs.existsSync(file)) {
+      const { version } = JSON.parse(fs.readFileSync(file, "utf8"));
+      if (typeof version === "string") {
+        return version;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      throw new SettingsError("Could not find version in package.json");
+    }
+    dir = parent;
+  }
+}
+function handleVersion(
+  parsed: ParsedArgs,
+  defs: ParsedDefinitions,
+  version: VersionOption,
+  io: IO
+): void {
+  if (version !== false && flagOf(parsed, defs, "version")) {
+    io.stdout.write(
+      `${version === true ? findVersion(scriptDir()) : version}\n`
+    );
+    io.exit(0);
+  }
+}
+
+function handleCompletion(
+  parsed: ParsedArgs,
+  defs: ParsedDefinitions,
+  definitions: Record<string, string>,
+  makeScript: (shell: Shell) => string,
+  io: IO,
+  messages: Messages
+): void {
+  const occurrences = parsed.values.completion ?? [];
+  if ("completion" in definitions || occurrences.length === 0) {
+    return;
+  }
+  const { choices } = defs.completion;
+  const shell = occurrences[occurrences.length - 1].value;
+  if (!choices!.includes(shell)) {
+    // `true` means that the value is missing
+    const value = typeof shell === "string" ? shell : null;
+    throw invalid(
+      "invalid_choice",
+      format(messages.invalid_choice, {
+        name: "--completion",
+        choices: choices!.join(messages.separator),
+        value: value ?? "",
+      }),
+      { name: "--completion", value }
+    );
+  }
+  io.stdout.write(makeScript(shell));
+  io.exit(0);
+}
+
+type Help<T extends number | null> = (
+  exit: T,
+  hidden?: boolean
+) => T extends number ? never : string;
+function makeHelpFunction(
+  makeMessage: (hidden: boolean, output: Writer) => string,
+  io: IO
+): Help<number | null> {
+  return (exit: number | null, hidden = false) => {
+    // the style (e.g. colors) depends on where the message is written to
+    const output = exit == null || exit === 0 ? io.stdout : io.stderr;
+    const s = makeMessage(hidden, output);
+    if (exit != null) {
+      output.write(s + "\n");
+      io.exit(exit);
+    }
+    return s as any;
+  };
+}
+// adds the hidden `--help-all` if `help` is defined and there are hidden names to reveal
+function withHelpAll(
+  defs: ParsedDefinitions,
+  handleHelp: boolean,
+  messages: Messages
+): ParsedDefinitions {
+  const keys = Object.keys(defs);
+  if (
+    !handleHelp ||
+    !("help" in defs) ||
+    "helpAll" in defs ||
+    !keys.some((key) => defs[key].names.some((n) => n.hidden)) ||
+    keys.some((key) => defs[key].names.some((n) => n.name === "--help-all"))
+  ) {
+    return defs;
+  }
+  return {
+    ...defs,
+    helpAll: parseDefinition(
+      "helpAll",
+      `--help-all(hidden):boolean; ${messages.help_all}`
+    ),
+  };
+}
+// adds the hidden `--completion` if enabled and neither the key nor the name is defined
+function withCompletion(
+  defs: ParsedDefinitions,
+  completion: boolean
+): ParsedDefinitions {
+  if (
+    !completion ||
+    "completion" in defs ||
+    Object.keys(defs).some((key) =>
+      defs[key].names.some((n) => n.name === "--completion")
+    )
+  ) {
+    return defs;
+  }
+  return {
+    ...defs,
+    completion: parseDefinition(
+      "completion",
+      `--completion(hidden):"bash"|"zsh"|"fish"`
+    ),
+  };
+}
+// help and version are handled before validation so that they work without the required options
+function handleHelpAndVersion(
+  parsed: ParsedArgs,
+  defs: ParsedDefinitions,
+  handleHelp: boolean,
+  help: Help<number | null>,
+  version: VersionOption,
+  io: IO
+): void {
+  if (handleHelp && flagOf(parsed, defs, "help")) {
+    help(0);
+  }
+  if (handleHelp && flagOf(parsed, defs, "helpAll")) {
+    help(0, true);
+  }
+  handleVersion(parsed, defs, version, io);
+}
+// the auto-added options are not a part of the result
+function omitAutoAdded(
+  options: Record<string, unknown>,
+  definitions: Record<string, string>
+): void {
+  for (const key of ["version", "helpAll", "completion"]) {
+    if (!(key in definitions)) {
+      delete options[key];
+    }
+  }
+}
+function validateWithConfig(
+  parsed: ParsedArgs,
+  defs: ParsedDefinitions,
+  requireTarget: string | boolean,
+  env: Record<string, string | undefined>,
+  configOption: ConfigOption | null,
+  relations: Relations<string>,
+  prompt: Prompt | null,
+  messages: Messages,
+  positionals: ParsedPositionals
+) {
+  let config = null;
+  if (configOption != null) {
+    const path = configPathOf(parsed, defs, configOption, env);
+    if (path != null) {
+      config = loadConfig(path, messages);
+    }
+  }
+  return validate(
+    parsed,
+    defs,
+    requireTarget,
+    env,
+    config,
+    relations,
+    prompt,
+    messages,
+    positionals
+  );
+}
+function handleError(
+  e: unknown,
+  exitOnError: boolean,
+  help: Help<number | null>,
+  io: IO,
+  messages: Messages
+): never {
+  if (e instanceof ValidationError) {
+    if (exitOnError) {
+      for (const issue of e.issues) {
+        if (issue.message) {
+          io.stderr.write(
+            format(messages.error, { message: issue.message }) + "\n"
+          );
+        }
+      }
+      help(1);
+    }
+  }
+  throw e;
+}
+
+type ParsedOptions<
+  T extends Record<string, string>,
+  U extends CustomTypes = {}
+> = {
+  [K in keyof T]: Parse<T[K], U>;
+};
+type ParsedPositionalValues<P extends Record<string, string>> = {
+  [K in keyof P]: ParsePositional<P[K]>;
+};
+type Options = {
+  usage?: string;
+  name?: string;
+  exitOnError?: boolean;
+  handleHelp?: boolean;
+  requireTarget?: string | boolean;
+  env?: Record<string, string | undefined>;
+  config?: ConfigOption;
+  completion?: boolean;
+  help?: HelpOptions;
+  prompt?: PromptOption;
+  io?: ProcessIO;
+  version?: VersionOption;
+  warn?: (message: string) => void;
+  messages?: Partial<Messages>;
+};
+export function parseArgs<
+  T extends Record<string, string>,
+  P extends Record<string, string> = {},
+  U extends CustomTypes = {},
+  R extends Relations<Extract<keyof T, string>, ParsedOptions<T, U>> = {}
+>(
+  args: string[],
+  definitions: ValidDefinitions<T, U>,
+  options?: Options & { positionals?: P; types?: U; relations?: R }
+): {
+  targets: string[];
+  options: RelatedOptions<ParsedOptions<T, U>, R>;
+  positionals: ParsedPositionalValues<P>;
+  rest: string[];
+  help: Help<number | null>;
+} {
+  const {
+    usage,
+    name,
+    exitOnError,
+    handleHelp,
+    requireTarget,
+    env,
+    config,
+    completion,
+    positionals,
+    types,
+    relations,
+    help: helpOptions,
+    prompt,
+    io: ioOption,
+    version,
+    warn: warnOption,
+    messages: messagesOption,
+  } = {
+    usage: null,
+    name: path.basename(process.argv[1] ?? ""),
+    positionals: {} as P,
+    types: {} as U,
+    relations: {} as Relations<string>,
+    exitOnError: true,
+    handleHelp: true,
+    requireTarget: false,
+    env: process.env,
+    config: null,
+    completion: false,
+    help: {},
+    prompt: false as PromptOption,
+    io: {},
+    version: false as VersionOption,
+    warn: null as ((message: string) => void) | null,
+    messages: {} as Partial<Messages>,
+    ...options,
+  };
+  const messages: Messages = { ...defaultMessages, ...messagesOption };
+  const io = ioOf(ioOption);
+  const warn = warnOf(warnOption, io, messages);
+  const defs = withCompletion(
+    withHelpAll(
+      parseDefinitions(
+        withVersion(definitions as T, version, messages),
+        types,
+        messages
+      ),
+      handleHelp,
+      messages
+    ),
+    completion
+  );
+  checkRelations(relations, defs);
+  checkSections(helpOptions, new Set(Object.keys(defs)));
+  const positionalDefs = parsePositionals(positionals);
+  const parsed = tokenize(args, defs);
+  deprecationWarnings(parsed, defs, messages).forEach((message) =>
+    warn(message)
+  );
+  const help = makeHelpFunction(
+    (hidden, output) =>
+      makeHelp(usage, defs, {
+        positionals: positionalDefs,
+        name,
+        help: helpOptions,
+        output,
+        hidden,
+        messages,
+      }),
+    io
+  );
+  try {
+    handleCompletion(
+      parsed,
+      defs,
+      definitions as T,
+      (shell) => makeCompletionScript(shell, name, defs),
+      io,
+      messages
+    );
+    handleHelpAndVersion(parsed, defs, handleHelp, help, version, io);
+    const validated = validateWithConfig(
+      parsed,
+      defs,
+      requireTarget,
+      env,
+      config,
+      relations,
+      promptOf(prompt, io),
+      messages,
+      positionalDefs
+    );
+    omitAutoAdded(validated.options, definitions as T);
+    return { ...validated, help } as any;
+  } catch (e) {
+    return handleError(e, exitOnError, help, io, messages);
+  }
+}
+
+type AsyncCheck<V> = {
+  validate?: (value: V) => void | Promise<void>;
+  transform?: (value: V) => unknown;
+};
+type AsyncChecks<O> = { [K in keyof O]?: AsyncCheck<NonNullable<O[K]>> };
+type TransformedOptions<O, C> = {
+  [K in keyof O]: C[K & keyof C] extends { transform: (value: any) => infer R }
+    ? (R extends Promise<infer V> ? V : R) | (null extends O[K] ? null : never)
+    : O[K];
+};
+async function runChecks(
+  options: Record<string, any>,
+  defs: ParsedDefinitions,
+  checks: AsyncChecks<Record<string, unknown>>,
+  messages: Messages
+): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [];
+  await Promise.all(
+    Object.keys(checks).map(async (key) => {
+      const check = checks[key]!;
+      const value = options[key];
+      if (value == null) {
+        return;
+      }
+      const name = `--${defs[key].long}`;
+      try {
+        await check.validate?.(value);
+        if (check.transform != null) {
+          options[key] = await check.transform(value);
+        }
+      } catch (e: any) {
+        if (e instanceof ValidationError) {
+          for (const issue of e.issues) {
+            issues.push(
+              issue.key == null ? { ...issue, key, name, value } : issue
+            );
+          }
+        } else {
+          issues.push(
+            issueOf(
+              "custom",
+              format(messages.custom, { name, message: e?.message ?? e }),
+              { key, name, value }
+            )
+          );
+        }
+      }
+    })
+  );
+  // keep the order of the definitions regardless of which check finished first
+  const keys = Object.keys(defs);
+  return issues.sort(
+    (a, b) => keys.indexOf(a.key ?? "") - keys.indexOf(b.key ?? "")
+  );
+}
+export async function parseArgsAsync<
+  T extends Record<string, string>,
+  P extends Record<string, string> = {},
+  U extends CustomTypes = {},
+  R extends Relations<Extract<keyof T, string>, ParsedOptions<T, U>> = {},
+  C extends AsyncChecks<ParsedOptions<T, U>> = {}
+>(
+  args: string[],
+  definitions: ValidDefinitions<T, U>,
+  options?: Options & {
+    positionals?: P;
+    types?: U;
+    relations?: R;
+    checks?: C;
+  }
+): Promise<{
+  targets: string[];
+  options: TransformedOptions<RelatedOptions<ParsedOptions<T, U>, R>, C>;
+  positionals: ParsedPositionalValues<P>;
+  rest: string[];
+  help: Help<number | null>;
+}> {
+  const result = parseArgs<T, P, U, R>(args, definitions, options);
+  const {
+    exitOnError = true,
+    checks = {},
+    types = {},
+    io = {},
+    messages: messagesOption = {},
+  } = options ?? {};
+  const messages: Messages = { ...defaultMessages, ...messagesOption };
+  const defs = parseDefinitions(definitions as T, types, messages);
+  const issues = await runChecks(result.options, defs, checks, messages);
+  if (issues.length > 0) {
+    return handleError(
+      aggregate(issues),
+      exitOnError,
+      result.help,
+      ioOf(io),
+      messages
+    );
+  }
+  return result as any;
+}
+
+type CommandDefinition = {
+  description?: string;
+  usage?: string;
+  definitions: Record<string, string>;
+  positionals?: Record<string, string>;
+  relations?: Relations<string>;
+};
+type CheckedCommands<
+  C extends Record<string, CommandDefinition>,
+  U extends CustomTypes
+> = {
+  [K in keyof C]: Omit<C[K], "definitions"> & {
+    definitions: CheckedDefinitions<C[K]["definitions"], U>;
+  };
+};
+type ValidCommands<
+  C extends Record<string, CommandDefinition>,
+  U extends CustomTypes
+> = C extends CheckedCommands<C, U> ? C : CheckedCommands<C, U>;
+type CommandResult<
+  G extends Record<string, string>,
+  C extends Record<string, CommandDefinition>,
+  U extends CustomTypes
+> = {
+  [K in Extract<keyof C, string>]: {
+    command: K;
+    targets: string[];
+    options: RelatedOptions<
+      ParsedOptions<G & C[K]["definitions"], U>,
+      C[K]["relations"]
+    >;
+    positionals: C[K]["positionals"] extends Record<string, string>
+      ? ParsedPositionalValues<C[K]["positionals"]>
+      : {};
+    rest: string[];
+    help: Help<number | null>;
+  };
+}[Extract<keyof C, string>];
+
+function findCommand(args: string[], globalDefs: ParsedDefinitions): number {
+  const { targets } = tokenize(args, globalDefs);
+  return targets.length > 0 ? targets[0].index : -1;
+}
+
+export function parseCommands<
+  C extends Record<string, CommandDefinition>,
+  G extends Record<string, string> = {},
+  U extends CustomTypes = {}
+>(
+  args: string[],
+  commands: ValidCommands<C, U>,
+  options?: Options & { globals?: ValidDefinitions<G, U>; types?: U }
+): CommandResult<G, C, U> {
+  const {
+    globals: globalsOption,
+    types,
+    usage,
+    name,
+    exitOnError,
+    handleHelp,
+    requireTarget,
+    env,
+    config,
+    completion,
+    help: helpOptions,
+    prompt,
+    io: ioOption,
+    version,
+    warn: warnOption,
+    messages: messagesOption,
+  } = {
+    globals: {} as G,
+    types: {} as U,
+    usage: null,
+    name: path.basename(process.argv[1] ?? ""),
+    exitOnError: true,
+    handleHelp: true,
+    requireTarget: false,
+    env: process.env,
+    config: null,
+    completion: false,
+    help: {},
+    prompt: false as PromptOption,
+    io: {},
+    version: false as VersionOption,
+    warn: null as ((message: string) => void) | null,
+    messages: {} as Partial<Messages>,
+    ...options,
+  };
+  const messages: Messages = { ...defaultMessages, ...messagesOption };
+  const io = ioOf(ioOption);
+  const warn = warnOf(warnOption, io, messages);
+  const globals = withVersion(globalsOption, version, messages);
+  const globalDefs = withCompletion(
+    withHelpAll(
+      parseDefinitions(globals, types, messages),
+      handleHelp,
+      messages
+    ),
+    completion
+  );
+  const commandDefs: Record<string, ParsedDefinitions> = {};
+  const commandPositionals: Record<string, ParsedPositionals> = {};
+  for (const command in commands) {
+    const { definitions, positionals = {} } = commands[command];
+    for (const key in definitions) {
+      if (key in globals) {
+        throw new SettingsError(
+          `Key of command "${command}" conflicts with global options: ${key}`
+        );
+      }
+    }
+    commandDefs[command] = withCompletion(
+      withHelpAll(
+        parseDefinitions({ ...globals, ...definitions }, types, messages),
+        handleHelp,
+        messages
+      ),
+      completion
+    );
+    checkRelations(commands[command].relations ?? {}, commandDefs[command]);
+    commandPositionals[command] = parsePositionals(positionals);
+  }
+  const allKeys = new Set(Object.keys(globalDefs));
+  for (const command in commandDefs) {
+    Object.keys(commandDefs[command]).forEach((key) => allKeys.add(key));
+  }
+  checkSections(helpOptions, allKeys);
+  const commandList: [string, string][] = Object.keys(
+    commands
+  ).map((command) => [command, commands[command].description ?? ""]);
+  const help = makeHelpFunction(
+    (hidden, output) =>
+      makeHelp(usage, globalDefs, {
+        commands: commandList,
+        help: helpOptions,
+        output,
+        hidden,
+        messages,
+      }),
+    io
+  );
+  const script = (shell: Shell) =>
+    makeCompletionScript(
+      shell,
+      name,
+      globalDefs,
+      completionCommandsOf(commands, globals, types)
+    );
+  let index!: number;
+  try {
+    index = findCommand(args, globalDefs);
+    if (index < 0) {
+      const parsed = tokenize(args, globalDefs);
+      deprecationWarnings(parsed, globalDefs, messages).forEach((message) =>
+        warn(message)
+      );
+      handleCompletion(parsed, globalDefs, globalsOption, script, io, messages);
+      handleHelpAndVersion(parsed, globalDefs, handleHelp, help, version, io);
+      validate(parsed, globalDefs, false, env, null, {}, null, messages);
+      throw invalid("command_required", messages.command_required);
+    }
+    if (!Object.prototype.hasOwnProperty.call(commands, args[index])) {
+      throw invalid(
+        "unknown_command",
+        format(messages.unknown_command, { name: args[index] }),
+        { value: args[index] }
+      );
+    }
+  } catch (e) {
+    return handleError(e, exitOnError, help, io, messages);
+  }
+  const command = args[index];
+  const definitions = { ...globalsOption, ...commands[command].definitions };
+  const defs = commandDefs[command];
+  const positionalDefs = commandPositionals[command];
+  const parsed = tokenize(args, defs, index);
+  deprecationWarnings(parsed, defs, messages).forEach((message) =>
+    warn(message)
+  );
+  const commandHelp = makeHelpFunction(
+    (hidden, output) =>
+      makeHelp(commands[command].usage ?? null, defs, {
+        positionals: positionalDefs,
+        name: `${name} ${command}`,
+        help: helpOptions,
+        output,
+        hidden,
+        messages,
+      }),
+    io
+  );
+  try {
+    handleCompletion(parsed, defs, definitions, script, io, messages);
+    handleHelpAndVersion(parsed, defs, handleHelp, commandHelp, version, io);
+    const validated = validateWithConfig(
+      parsed,
+      defs,
+      requireTarget,
+      env,
+      config,
+      commands[command].relations ?? {},
+      promptOf(prompt, io),
+      messages,
+      positionalDefs
+    );
+    omitAutoAdded(validated.options, definitions);
+    return { command, ...validated, help: commandHelp } as any;
+  } catch (e) {
+    return handleError(e, exitOnError, commandHelp, io, messages);
   }
 }
@@ -0,0 +1,35 @@
+import { parseCommands } from "../src";
+
+const args = process.argv.slice(2);
+const result = parseCommands(
+  args,
+  // prettier-ignore
+  {
+    build: {
+      description: "Build the project",
+      definitions: {
+        watch:   `-w,--watch:boolean;    Watch files`,
+      },
+    },
+    serve: {
+      description: "Start the server",
+      usage: "command serve [<options>]",
+      definitions: {
+        port:    `-p,--port:number=3000; Port to use`,
+      },
+    },
+  } as const,
+  {
+    usage: "command <command> [<options>]",
+    // prettier-ignore
+    globals: {
+      verbose: `--verbose:boolean;       Show more logs`,
+      help:    `--help:boolean;          Show this help`,
+    } as const,
+  }
+);
+if (result.command === "serve") {
+  console.log(result.command, result.options.port, result.options.verbose);
+} else {
+  console.log(result.command, result.options.watch, result.options.verbose);
+}
@@ -14,6 +14,8 @@ const {
     } as const,
   {
     usage: "command [<options>] <paths>...",
+    name: "example",
+    completion: true,
   }
 );
 console.log(port, address, cors);
@@ -1,6 +1,21 @@
 import assert, { deepStrictEqual, fail, strictEqual } from "assert";
-import { parseArgs, SettingsError, ValidationError } from "../src";
+import {
+  defaultMessages,
+  makeCommandsCompletion,
+  makeCompletion,
+  makeJsonSchema,
+  parseArgs,
+  parseArgsAsync,
+  parseCommands,
+  SettingsError,
+  ValidationError,
+  ValidationIssue,
+} from "../src";
 import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { URL } from "url";
 
 let success = 0;
 let error = 0;
@@ -13,20 +28,44 @@ process.on("beforeExit", () => {
   process.exit(error);
 });
 function test(name: string, f: Function) {
-  try {
-    console.log(`🔹 testing "${name}" ...`);
-    f();
+  const onSuccess = () => {
     setTimeout(() => {
       success++;
       console.log("✅ " + name);
     }, 0);
-  } catch (e) {
+  };
+  const onError = (e: any) => {
     setTimeout(() => {
       error++;
       console.log("❌ " + name);
       console.log("    " + e.message);
     }, 0);
+  };
+  try {
+    console.log(`🔹 testing "${name}" ...`);
+    const result = f();
+    if (result instanceof Promise) {
+      result.then(onSuccess, onError);
+    } else {
+      onSuccess();
+    }
+  } catch (e) {
+    onError(e);
+  }
+}
+async function expectErrorAsync(
+  errorClass: any,
+  f: () => Promise<unknown>
+): Promise<ValidationIssue[]> {
+  try {
+    await f();
+  } catch (e: any) {
+    if (e instanceof errorClass) {
+      return e.issues;
+    }
+    fail(`expected ${errorClass.name} to be thrown but got: ${e.message}`);
   }
+  fail(`expected ${errorClass.name} to be thrown but no error was thrown`);
 }
 function expectError(errorClass: any, f: Function): string {
   let result = null;
@@ -67,6 +106,7 @@ test("targets and rest", () => {
   const expected = {
     targets: ["a", "b", "-"],
     options: {},
+    positionals: {},
     rest: ["-a", "--foo"],
   };
   const { help, ...actual } = parseArgs(cmd.split(/\s+/), opt, options);
@@ -80,12 +120,30 @@ test("targets and rest", () => {
     [`-a,--b:boolean`, `-a,--c:string`],
   ] as const) {
     test("duplicated options: " + a, () => {
-      const opt = { a, b } as const;
+      const opt: Record<string, string> = { a, b };
       expectError(SettingsError, () => parseArgs([], opt, options));
     });
   }
 }
 
+{
+  for (const a of [
+    "--a",
+    "a:string",
+    "-ab,--a:string",
+    "--a:string x",
+    "--a:string=1 @",
+  ]) {
+    test("syntax error: " + a, () => {
+      const opt: Record<string, string> = { foo: a };
+      const message = expectError(SettingsError, () =>
+        parseArgs([], opt, options)
+      );
+      assertMatches(/foo/, message);
+    });
+  }
+}
+
 {
   for (const [a, expectedValue] of [
     [`--a:string="; \\""`, '; "'],
@@ -123,7 +181,7 @@ test("targets and rest", () => {
     `--a:string[]=""`,
   ] as const) {
     test("invalid default value: " + s, () => {
-      const opt = { s } as const;
+      const opt: Record<string, string> = { s };
       expectError(SettingsError, () => parseArgs([], opt, options));
     });
   }
@@ -281,6 +339,384 @@ test("boolean short option that has value", () => {
   }
 }
 
+{
+  for (const [a, cmd, expectedValue] of [
+    ["-a,--aa:boolean", "--no-aa", false],
+    ["-a,--aa:boolean=true", "--no-aa", false],
+    ["-a,--aa:boolean=true", "--aa --no-aa", false],
+    ["-a,--aa:boolean=true", "--no-aa --aa", true],
+    ["-a,--aa:boolean=true", "--no-aa -a", true],
+    ["-a,--aa:boolean", "--aa=true", true],
+    ["-a,--aa:boolean=true", "--aa=false", false],
+    ["-a,--aa:boolean", "--aa=yes", true],
+    ["-a,--aa:boolean=true", "--aa=No", false],
+    ["-a,--aa:boolean", "--aa=1", true],
+    ["-a,--aa:boolean=true", "--aa=0", false],
+    ["-a,--aa:boolean=true", "-- --no-aa", true],
+  ] as const) {
+    test("explicit boolean: " + a + " | " + cmd, () => {
+      const opt = { a } as const;
+      const expected = { a: expectedValue };
+      const { options: actual } = parseArgs(cmd.split(/\s+/), opt, options);
+      deepStrictEqual(actual, expected);
+    });
+  }
+}
+
+test("explicit boolean: help", () => {
+  const opt = {
+    a: "-a,--aa:boolean=true; Enabled",
+    b: "-b,--bb:boolean; Disabled",
+  } as const;
+  const message = parseArgs([], opt, options).help(null);
+  assertMatches(/-a, --\[no-\]aa Enabled \(default:true\)\n/, message);
+  assertMatches(/-b, --bb +Disabled\n/, message);
+});
+
+{
+  const opt = {
+    v: "-v,--verbose:count",
+    q: "-q,--quiet:boolean",
+    p: "-p,--port:number",
+  } as const;
+  for (const [cmd, expectedValue] of [
+    ["", 0],
+    ["-v", 1],
+    ["-vvv", 3],
+    ["-v -v", 2],
+    ["-vv --verbose -v", 4],
+    ["-qvqv", 2],
+    ["-vp 1", 1],
+    ["-vp1", 1],
+    ["-- -v", 0],
+  ] as const) {
+    test("count: " + cmd, () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const { options: actual } = parseArgs(args, opt, options);
+      strictEqual(actual.v, expectedValue);
+    });
+  }
+}
+
+{
+  for (const [a, cmd, env, expectedValue] of [
+    ["-v,--verbose:count=2", "", {}, 2],
+    ["-v,--verbose:count=2", "-v", {}, 1],
+    ["-v,--verbose:count @V", "", { V: "3" }, 3],
+  ] as const) {
+    test("count with default: " + a + " | " + cmd, () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const opt = { a } as const;
+      const { options: actual } = parseArgs(args, opt, { ...options, env });
+      strictEqual(actual.a, expectedValue);
+    });
+  }
+}
+
+{
+  for (const [cmd, env] of [
+    ["--verbose=3", {}],
+    ["", { V: "x" }],
+    ["", { V: "1.5" }],
+  ] as const) {
+    test("count (invalid): " + cmd + " | " + JSON.stringify(env), () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const opt = { a: "-v,--verbose:count @V" } as const;
+      const message = expectError(ValidationError, () =>
+        parseArgs(args, opt, { ...options, env })
+      );
+      assertMatches(/should be a non-negative integer/, message);
+    });
+  }
+  for (const a of [
+    `--a:count=-1`,
+    `--a:count=1.5`,
+    `--a:count=true`,
+  ] as const) {
+    test("count (invalid default value): " + a, () => {
+      const opt: Record<string, string> = { a };
+      expectError(SettingsError, () => parseArgs([], opt, options));
+    });
+  }
+}
+
+test("count: help", () => {
+  const opt = { v: "-v,--verbose:count; Verbosity" } as const;
+  const message = parseArgs([], opt, options).help(null);
+  assertMatches(/  -v, --verbose Verbosity \(repeatable\)\n/, message);
+});
+
+const types = {
+  duration: {
+    parse: (s: string): number => {
+      const matched = /^(\d+)(ms|s|m)$/.exec(s);
+      if (matched == null) {
+        throw new Error("invalid duration");
+      }
+      const [, n, unit] = matched;
+      return Number(n) * (unit === "m" ? 60000 : unit === "s" ? 1000 : 1);
+    },
+  },
+  url: {
+    parse: (s: string): URL => new URL(s),
+  },
+};
+
+{
+  for (const [a, cmd, expectedValue] of [
+    ["--t:duration", "", null],
+    ["--t:duration=30s", "", 30000],
+    [`--t : duration = "5m" ; Timeout`, "", 300000],
+    ["--t:duration=30s", "--t 1m", 60000],
+    ["--t:duration!", "--t=10ms", 10],
+    ["--t:duration[]", "--t 1s --t=2s", [1000, 2000]],
+    [`--t:duration[]=["1s", "1m"]`, "", [1000, 60000]],
+    ["--t:duration[] @T", "", [1000, 3000]],
+  ] as const) {
+    test("custom types: " + a + " | " + cmd, () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const opt = { a } as const;
+      const { options: actual } = parseArgs(args, opt, {
+        ...options,
+        env: { T: "1s,3s" },
+        types,
+      });
+      deepStrictEqual(actual.a, expectedValue);
+    });
+  }
+}
+
+{
+  for (const [a, cmd, expectedMessage] of [
+    ["--t:duration", "--t 1h", /--t should be a duration: 1h/],
+    ["--t:duration[]", "--t 1s --t 1", /--t should be a duration: 1/],
+    ["--t:url", "--t x", /--t should be an url: x/],
+    ["--t:duration", "--t 1s --t 2s", /--t should not have multiple values/],
+  ] as const) {
+    test("custom types (invalid): " + a + " | " + cmd, () => {
+      const opt = { a } as const;
+      const message = expectError(ValidationError, () =>
+        parseArgs(cmd.split(/\s+/), opt, { ...options, types })
+      );
+      assertMatches(expectedMessage, message);
+    });
+  }
+  for (const a of [
+    "--t:duration=1h",
+    "--t:duration[]=1s",
+    `--t:duration[]=["1h"]`,
+    "--t:unknown",
+    "--t:durations",
+  ] as const) {
+    test("custom types (invalid settings): " + a, () => {
+      const opt: Record<string, string> = { a };
+      expectError(SettingsError, () =>
+        parseArgs([], opt, { ...options, types })
+      );
+    });
+  }
+}
+
+test("custom types: help", () => {
+  const opt = { a: "--timeout:duration=30s; Timeout" } as const;
+  const message = parseArgs([], opt, { ...options, types }).help(null);
+  assertMatches(/--timeout <duration> Timeout \(default:30s\)/, message);
+});
+
+{
+  for (const [a, cmd, expectedValue] of [
+    ["-D,--define:Record<string,string>", "", {}],
+    ["-D,--define:Record<string,string>", "-D a=1", { a: "1" }],
+    [
+      "-D,--define:Record<string,string>",
+      "-D NODE_ENV=prod -D region=eu --define=a=b=c",
+      { NODE_ENV: "prod", region: "eu", a: "b=c" },
+    ],
+    ["-D,--define:Record<string,string>", "-D a=1 -D a=2", { a: "2" }],
+    ["-D,--define:Record<string,string>", "-D a=", { a: "" }],
+    ["-D,--define:Record< string , number >", "-D a=1 -Db=-2", { a: 1, b: -2 }],
+    [`--d:Record<string,string>={"a":"x;y"}`, "", { a: "x;y" }],
+    [`--d:Record<string,number>={"a":1}`, "--d b=2", { b: 2 }],
+    ["--d:Record<string,number> @D", "", { x: 1, y: 2 }],
+    ["--d:Record<string,number>{integer,min:0}", "--d a=3", { a: 3 }],
+  ] as const) {
+    test("record: " + a + " | " + cmd, () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const opt = { a } as const;
+      const { options: actual } = parseArgs(args, opt, {
+        ...options,
+        env: { D: "x=1,y=2" },
+      });
+      deepStrictEqual(actual.a, expectedValue);
+    });
+  }
+}
+
+test("record: prototype keys", () => {
+  const opt = { d: "-D,--define:Record<string,string>" } as const;
+  const args = ["-D", "__proto__=x", "-D", "constructor=y"];
+  const { options: actual } = parseArgs(args, opt, options);
+  deepStrictEqual(Object.keys(actual.d), ["__proto__", "constructor"]);
+  strictEqual(actual.d["__proto__"], "x");
+  strictEqual(actual.d.constructor, "y");
+  strictEqual(Object.getPrototypeOf(actual.d), Object.prototype);
+});
+
+{
+  for (const [a, cmd, expectedMessage] of [
+    [
+      "-D,--define:Record<string,string>",
+      "-D a",
+      /^-D should be in the form key=value: a$/,
+    ],
+    [
+      "-D,--define:Record<string,string>",
+      "-D =a",
+      /^-D should be in the form key=value: =a$/,
+    ],
+    [
+      "-D,--define:Record<string,number>",
+      "-D a=x",
+      /^All value of -D should be a number$/,
+    ],
+    [
+      "-D,--define:Record<string,number>{min:0}",
+      "-D a=-1",
+      /^-D should be at least 0: -1$/,
+    ],
+    [
+      "-D,--define:Record<string,string>{pattern:/^[a-z]+$/}",
+      "-D a=X",
+      /^-D should match \/\^\[a-z\]\+\$\/: X$/,
+    ],
+  ] as const) {
+    test("record (invalid): " + a + " | " + cmd, () => {
+      const opt = { a } as const;
+      const message = expectError(ValidationError, () =>
+        parseArgs(cmd.split(/\s+/), opt, options)
+      );
+      assertMatches(expectedMessage, message);
+    });
+  }
+  for (const a of [
+    "--d:Record<string,number>=1",
+    `--d:Record<string,number>={"a":"1"}`,
+    `--d:Record<string,string>=["a"]`,
+    `--d:Record<string,number>{min:0}={"a":-1}`,
+    "--d:Record<string,string>{minItems:1}",
+    "--d:Record<number,string>",
+    "--d:Record<string,boolean>",
+  ] as const) {
+    test("record (invalid settings): " + a, () => {
+      const opt: Record<string, string> = { a };
+      expectError(SettingsError, () => parseArgs([], opt, options));
+    });
+  }
+}
+
+test("record: config", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "typed-args-"));
+  const file = path.join(dir, "config.json");
+  fs.writeFileSync(file, JSON.stringify({ labels: { app: "web", n: 1 } }));
+  const opt = { labels: "--labels:Record<string,string>" } as const;
+  const { options: actual } = parseArgs([], opt, {
+    ...options,
+    config: { path: file },
+  });
+  deepStrictEqual(actual.labels, { app: "web", n: "1" });
+});
+
+test("record: help", () => {
+  const opt = {
+    a: "-D,--define:Record<string,string>; Define",
+    b: `--label:Record<string,number>={"a":1}; Label`,
+  } as const;
+  const message = parseArgs([], opt, options).help(null);
+  assertMatches(/  -D, --define <key=value> +Define\n/, message);
+  assertMatches(
+    /  --label <key=value> +Label \(default:\{"a":1\}\)\n/,
+    message
+  );
+});
+
+{
+  for (const [a, cmd, expectedValue] of [
+    ["--a:number{integer}", "--a 3", 3],
+    ["--a:number{ integer , min : 1 , max : 65535 }=3000", "", 3000],
+    ["--a:number{min:-1.5}", "--a=-1.5", -1.5],
+    ["--a:number[]{integer,minItems:2}", "--a 1 --a 2", [1, 2]],
+    ["--a:string{pattern:/^[a-z,}]+$/i}", "--a Foo,}", "Foo,}"],
+    ["--a:string[]{pattern:/^\\d+$/, maxItems:2}=[]", "--a 1", ["1"]],
+    ["-a,--aa:count{max:2}", "-aa", 2],
+    [`--a:"xx"|"y"{pattern:/^x/}`, "--a xx", "xx"],
+  ] as const) {
+    test("constraints: " + a + " | " + cmd, () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const opt = { a } as const;
+      const { options: actual } = parseArgs(args, opt, options);
+      deepStrictEqual(actual.a, expectedValue);
+    });
+  }
+}
+
+{
+  for (const [a, cmd, expectedMessage] of [
+    ["-a,--aa:number{integer}", "-a 3.7", /-a should be an integer: 3.7/],
+    ["--a:number{min:1}", "--a 0", /--a should be at least 1: 0/],
+    ["--a:number{max:1}", "--a 2", /--a should be at most 1: 2/],
+    ["--a:number[]{min:1}", "--a 1 --a 0", /--a should be at least 1: 0/],
+    ["--a:string{pattern:/^a/}", "--a b", /--a should match \/\^a\/: b/],
+    ["--a:string[]{minItems:1}", "", /--a should have at least 1 values/],
+    [
+      "--a:string[]{maxItems:1}",
+      "--a x --a y",
+      /--a should have at most 1 values/,
+    ],
+    ["-a,--aa:count{max:2}", "-aaa", /-a should be at most 2: 3/],
+  ] as const) {
+    test("constraints (invalid): " + a + " | " + cmd, () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const opt = { a } as const;
+      const issues = expectIssues(() => parseArgs(args, opt, options));
+      strictEqual(issues[0].code, "constraint_violation");
+      assertMatches(expectedMessage, issues[0].message);
+    });
+  }
+  for (const a of [
+    "--a:number{integer}=1.5",
+    "--a:number{min:1}=0",
+    "--a:number[]{max:1}=[1,2]",
+    "--a:number[]{minItems:1}=[]",
+    `--a:string{pattern:/^a/}="b"`,
+    "--a:string{integer}",
+    "--a:number{pattern:/a/}",
+    "--a:number{minItems:1}",
+    "--a:boolean{max:1}",
+    "--a:number{foo}",
+  ] as const) {
+    test("constraints (invalid settings): " + a, () => {
+      const opt = { a } as const;
+      expectError(SettingsError, () => parseArgs([], opt, options));
+    });
+  }
+}
+
+test("constraints: help", () => {
+  const opt = {
+    a: "-p,--port:number{integer,min:1,max:65535}=3000; Port",
+    b: "--tags:string[]{pattern:/^\\w+$/,maxItems:3}; Tags",
+  } as const;
+  const message = parseArgs([], opt, options).help(null);
+  assertMatches(
+    /--port <number> Port \(integer, min:1, max:65535\) \(default:3000\)/,
+    message
+  );
+  assertMatches(
+    /--tags <string> +Tags \(pattern:\/\^\\w\+\$\/, maxItems:3\)/,
+    message
+  );
+});
+
 test("empty string", () => {
   const cmd = "--str=";
   const opt = { s: "--str:string" } as const;
@@ -308,6 +744,80 @@ test("empty string array", () => {
   }
 }
 
+{
+  for (const cmd of [`--str=0123`, `--str 0123`, `-s 0123`, `-s0123`]) {
+    test("string option keeps the value as is: " + cmd, () => {
+      const opt = { s: "-s,--str:string" } as const;
+      const { options: actual } = parseArgs(cmd.split(/\s+/), opt, options);
+      deepStrictEqual(actual, { s: "0123" });
+    });
+  }
+}
+
+{
+  const opt = {
+    a: "-a,--aa:boolean",
+    b: "-b,--bb:boolean",
+    p: "-p,--port:number",
+    n: "-n,--num:number[]",
+  } as const;
+  for (const [cmd, expected, targets] of [
+    ["-p80", { p: 80 }, []],
+    ["-p=80", { p: 80 }, []],
+    ["-p 80", { p: 80 }, []],
+    ["--port=80", { p: 80 }, []],
+    ["--port 80", { p: 80 }, []],
+    ["-abp80", { a: true, b: true, p: 80 }, []],
+    ["-ab x", { a: true, b: true }, ["x"]],
+    ["--port -1", { p: -1 }, []],
+    ["-n -1 -n -2.5", { n: [-1, -2.5] }, []],
+    ["-a -5", { a: true }, ["-5"]],
+    ["- -a", { a: true }, ["-"]],
+    ["-a=0", { a: false }, []],
+    ["--aa=1", { a: true }, []],
+  ] as const) {
+    test("tokenizer: " + cmd, () => {
+      const result = parseArgs(cmd.split(/\s+/), opt, options);
+      for (const key in expected) {
+        deepStrictEqual((result.options as any)[key], (expected as any)[key]);
+      }
+      deepStrictEqual(result.targets, targets);
+    });
+  }
+  for (const [cmd, expectedNames] of [
+    ["-abc", ["-c"]],
+    ["-xy", ["-x", "-y"]],
+    ["--port", []],
+    ["-p --bb", []],
+  ] as const) {
+    test("tokenizer (invalid): " + cmd, () => {
+      const issues = expectIssues(() =>
+        parseArgs(cmd.split(/\s+/), opt, options)
+      );
+      deepStrictEqual(
+        issues
+          .filter((issue) => issue.code === "unknown_option")
+          .map((issue) => issue.name),
+        expectedNames
+      );
+    });
+  }
+}
+
+test("tokenizer: index", () => {
+  const opt = { p: "-p,--port:number" } as const;
+  const issues = expectIssues(() =>
+    parseArgs(["a", "-p", "x", "--prot=1"], opt, options)
+  );
+  deepStrictEqual(
+    issues.map((issue) => [issue.name, issue.index]),
+    [
+      ["-p", 2],
+      ["--prot", 3],
+    ]
+  );
+});
+
 {
   for (const cmd of [`--str=1 --str=2`, `-s 1 -s 2`, `-s1 -s2`]) {
     test("string[] option that has number-like value: " + cmd, () => {
@@ -354,7 +864,7 @@ test("empty string array", () => {
 
 {
   for (const [a, cmd] of [
-    ["-a,--foo:number[]", "--a=1 --foo=2"],
+    ["-a,--foo:number[]", "-a 1 --foo=2"],
     ["-a,--foo:string[]", "-a x --foo=y"],
   ] as const) {
     test("take both short and long: " + a, () => {
@@ -366,14 +876,14 @@ test("empty string array", () => {
 
 {
   for (const [a, cmd] of [
-    ["-a,--foo:number", "--a=1 --foo=2"],
-    ["-a,--foo:number[]", "--a=x --foo=2"],
-    ["-a,--foo:number[]", "--a=1 --foo=y"],
-    ["-a,--foo:number[]", "--a=x --foo=y"],
+    ["-a,--foo:number", "-a=1 --foo=2"],
+    ["-a,--foo:number[]", "-a=x --foo=2"],
+    ["-a,--foo:number[]", "-a=1 --foo=y"],
+    ["-a,--foo:number[]", "-a=x --foo=y"],
     ["-a,--foo:string", "-a x --foo=y"],
-    ["-a,--foo:string[]", "--a=x --foo"],
-    ["-a,--foo:string[]", "--a --foo=y"],
-    ["-a,--foo:string[]", "--a --foo"],
+    ["-a,--foo:string[]", "-a=x --foo"],
+    ["-a,--foo:string[]", "-a --foo=y"],
+    ["-a,--foo:string[]", "-a --foo"],
   ] as const) {
     test("take both short and long (invalid): " + a, () => {
       const opt = { a } as const;
@@ -385,7 +895,15 @@ test("empty string array", () => {
 }
 
 {
-  for (const cmd of ["-a", "-a1", "-a 1", "--aa", "--aa=", "--aa=1"] as const) {
+  for (const cmd of [
+    "-a",
+    "-a1",
+    "-a 1",
+    "-ba",
+    "--aa",
+    "--aa=",
+    "--aa=1",
+  ] as const) {
     test("unknown options: " + cmd, () => {
       const opt = {} as const;
       const message = expectError(ValidationError, () =>
@@ -410,57 +928,1161 @@ test("empty string array", () => {
   }
 }
 
-function example(
-  args: string
-): { status: number | null; stdout: string; stderr: string } {
-  const path = "dist/test/example";
-  return spawnSync("node", [path, ...args.split(/\s+/)], {
-    encoding: "utf8",
-  });
+{
+  for (const [a, cmd, env, expectedValue] of [
+    ["--a:number=1 @A", "", {}, 1],
+    ["--a:number=1 @A", "", { A: "2" }, 2],
+    ["--a:number=1 @A", "--a=3", { A: "2" }, 3],
+    ["--a:number! @A", "", { A: "2" }, 2],
+    ["--a:string @A", "", { A: "" }, ""],
+    ["--a:string @A", "", { A: "1" }, "1"],
+    ["--a:boolean=true @A", "", { A: "false" }, false],
+    ["--a:boolean @A", "", { A: "true" }, true],
+    ["--a:number[] @A", "", { A: "1,2" }, [1, 2]],
+    ["--a:string[] @A", "", { A: "" }, []],
+    [`--a:string[] = ["x"] @A_1 ; description`, "", { A_1: "y,z" }, ["y", "z"]],
+  ] as const) {
+    test("environment variable: " + a + " | " + JSON.stringify(env), () => {
+      const opt = { a } as const;
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const expected = { a: expectedValue };
+      const { options: actual } = parseArgs(args, opt, { ...options, env });
+      deepStrictEqual(actual, expected);
+    });
+  }
 }
 
-test("example", () => {
-  const { status, stdout } = example("-p 3001 --cors");
-  strictEqual(status, 0);
-  strictEqual(stdout.trim(), "3001 0.0.0.0 true");
-});
+{
+  for (const [a, env] of [
+    ["--a:number @A", { A: "x" }],
+    ["--a:number @A", { A: "" }],
+    ["--a:boolean @A", { A: "x" }],
+    ["--a:number[] @A", { A: "1,x" }],
+  ] as const) {
+    test("environment variable (invalid): " + a, () => {
+      const opt = { a } as const;
+      const message = expectError(ValidationError, () =>
+        parseArgs([], opt, { ...options, env })
+      );
+      assertMatches(/environment variable A/, message);
+      assertMatches(/should/, message);
+    });
+  }
+}
 
-test("example: --help", () => {
-  const { status, stdout } = example("--help");
-  strictEqual(status, 0);
-  process.stdout.write(stdout);
+test("environment variable: help", () => {
+  const opt = { a: "-a,--aa:number=1 @AA; Description" } as const;
+  const { help } = parseArgs([], opt, { ...options, env: {} });
+  assertMatches(
+    /--aa <number> +Description \(default:1\) \(env:AA\)/,
+    help(null)
+  );
 });
 
-test("example: invalid", () => {
-  const { status, stderr } = example("--unknown");
-  strictEqual(status, 1);
-  process.stdout.write(stderr);
-});
+{
+  for (const [a, cmd, expectedValue] of [
+    [`--a:"x"|"y"`, "", null],
+    [`--a:"x"|"y"="y"`, "", "y"],
+    [`--a : "x" | "y z" = "y z"`, "", "y z"],
+    [`--a:"x"|"y"!`, "--a y", "y"],
+    [`--a:"1"|"2"`, "--a 2", "2"],
+    [`--a:("x"|"y")[]`, "--a x --a y --a x", ["x", "y", "x"]],
+    [`--a : ( "x" | "y" ) [ ] = ["y"]`, "", ["y"]],
+  ] as const) {
+    test("choices: " + a + " | " + cmd, () => {
+      const opt = { a } as const;
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const expected = { a: expectedValue };
+      const { options: actual } = parseArgs(args, opt, options);
+      deepStrictEqual(actual, expected);
+    });
+  }
+}
 
-function assertType<T>(t: T): T {
-  return t;
+{
+  for (const [a, cmd] of [
+    [`-a,--aa:"x"|"y"`, "-a z"],
+    [`-a,--aa:"x"|"y"`, "--aa="],
+    [`-a,--aa:("x"|"y")[]`, "-a x -a z"],
+  ] as const) {
+    test("choices (invalid): " + a + " | " + cmd, () => {
+      const opt = { a } as const;
+      const message = expectError(ValidationError, () =>
+        parseArgs(cmd.split(/\s+/), opt, options)
+      );
+      assertMatches(/-a/, message);
+      assertMatches(/should be one of x, y/, message);
+    });
+  }
 }
 
-test("types", () => {
+{
+  for (const a of [
+    `--a:"x"|"y"="z"`,
+    `--a:"x"|"y"=1`,
+    `--a:("x"|"y")[]=["x","z"]`,
+    `--a:("x"|"y")[]="x"`,
+  ] as const) {
+    test("choices (invalid default value): " + a, () => {
+      const opt: Record<string, string> = { a };
+      expectError(SettingsError, () => parseArgs([], opt, options));
+    });
+  }
+}
+
+test("choices: help", () => {
   const opt = {
-    b1: `--b1:boolean`,
-    b2: `--b2:boolean=true`,
-    b3: `--b3:boolean!`,
-    n1: `--n1:number`,
-    n2: `--n2:number=1`,
-    n3: `--n3:number!`,
-    na1: `--na1:number[]`,
-    na2: `--na2:number[]=[]`,
-    na3: `--na3:number[]!`,
-    s1: `--s1:string`,
-    s2: `--s2:string=""`,
-    s3: `--s3:string!`,
-    sa1: `--sa1:string[]`,
-    sa2: `--sa2:string[]=[]`,
-    sa3: `--sa3:string[]!`,
+    a: `--a:"x"|"y"="x"; Description`,
+    b: `--b:("x"|"y")[]`,
   } as const;
-  let {
-    options: {
+  const { help } = parseArgs([], opt, options);
+  const message = help(null);
+  assertMatches(/--a <x\|y> Description \(default:"x"\)/, message);
+  assertMatches(/--b <x\|y>/, message);
+});
+
+const layoutOpt = {
+  port: "-p,--port:number=3000; Port to use",
+  host: "--host:string; Host to bind",
+  verbose: "-v,--verbose:boolean; Show the details of the running process",
+  help: "--help:boolean; Show this help",
+} as const;
+
+test("help layout: sections", () => {
+  const message = parseArgs([], layoutOpt, {
+    ...options,
+    help: {
+      sections: [
+        { title: "Server", keys: ["port", "host"] },
+        { title: "Misc", keys: ["verbose"] },
+      ],
+    },
+  }).help(null);
+  strictEqual(
+    message,
+    `Options:
+  --help              Show this help
+Server:
+  -p, --port <number> Port to use (default:3000)
+  --host <string>     Host to bind
+Misc:
+  -v, --verbose       Show the details of the running process
+`
+  );
+});
+
+test("help layout: unknown key in sections", () => {
+  expectError(SettingsError, () =>
+    parseArgs([], layoutOpt, {
+      ...options,
+      help: { sections: [{ title: "Server", keys: ["foo"] }] },
+    })
+  );
+});
+
+test("help layout: wrap", () => {
+  const message = parseArgs([], layoutOpt, {
+    ...options,
+    help: { wrap: 50 },
+  }).help(null);
+  assertMatches(
+    /  -v, --verbose       Show the details of the\n {22}running process\n/,
+    message
+  );
+  assertMatches(
+    /  -p, --port <number> Port to use \(default:3000\)\n/,
+    message
+  );
+});
+
+test("help layout: examples and epilogue", () => {
+  const message = parseArgs([], layoutOpt, {
+    ...options,
+    usage: "server [<options>]",
+    help: {
+      examples: ["server -p 8080", "server --host localhost"],
+      epilogue: "See https://example.com for details.",
+    },
+  }).help(null);
+  assertMatches(
+    /Examples:\n  server -p 8080\n  server --host localhost\n\nSee https:\/\/example.com for details.\n$/,
+    message
+  );
+});
+
+test("help layout: color", () => {
+  const opt = { help: "--help:boolean; Show this help" } as const;
+  const colored = parseArgs([], opt, {
+    ...options,
+    usage: "server",
+    help: { color: true },
+  }).help(null);
+  strictEqual(
+    colored,
+    "\x1b[1mUsage:\x1b[0m server\n\x1b[1mOptions:\x1b[0m\n  \x1b[36m--help\x1b[0m Show this help\n"
+  );
+  const plain = parseArgs([], opt, {
+    ...options,
+    usage: "server",
+    help: { color: false },
+  }).help(null);
+  strictEqual(plain, "Usage: server\nOptions:\n  --help Show this help\n");
+});
+
+test("help layout: render", () => {
+  const message = parseArgs([], layoutOpt, {
+    ...options,
+    usage: "server",
+    help: {
+      render: ({ usage, definitions }) =>
+        `${usage}: ` +
+        Object.keys(definitions)
+          .map((key) => `--${definitions[key].long}`)
+          .join(" "),
+    },
+  }).help(null);
+  strictEqual(message, "server: --port --host --verbose --help");
+});
+
+function expectIssues(f: Function): ValidationIssue[] {
+  try {
+    f();
+  } catch (e: any) {
+    if (e instanceof ValidationError) {
+      return e.issues;
+    }
+    throw e;
+  }
+  fail("expected ValidationError to be thrown but no error was thrown");
+}
+
+test("all issues", () => {
+  const opt = {
+    a: "-a,--aa:number!",
+    b: "-b,--bb:number",
+    c: "-c,--cc:string",
+    d: "--dd:boolean",
+    e: `--ee:"x"|"y"`,
+  } as const;
+  const cmd = "-b x -c 1 --cc 2 --dd=x --ee z --unknown 1";
+  const issues = expectIssues(() => parseArgs(cmd.split(/\s+/), opt, options));
+  deepStrictEqual(
+    issues.map(({ message, ...rest }) => rest),
+    [
+      { code: "required", key: "a", name: null, value: null },
+      { code: "type_mismatch", key: "b", name: "-b", value: "x", index: 1 },
+      {
+        code: "multiple_values",
+        key: "c",
+        name: "-c",
+        value: ["1", "2"],
+        index: 3,
+      },
+      { code: "type_mismatch", key: "d", name: "--dd", value: "x", index: 6 },
+      { code: "invalid_choice", key: "e", name: "--ee", value: "z", index: 8 },
+      {
+        code: "unknown_option",
+        key: null,
+        name: "--unknown",
+        value: true,
+        suggestions: [],
+        index: 9,
+      },
+    ]
+  );
+  const message = expectError(ValidationError, () =>
+    parseArgs(cmd.split(/\s+/), opt, options)
+  );
+  strictEqual(message, issues.map((issue) => issue.message).join("\n"));
+});
+
+{
+  const opt = {
+    port: "-p,--port:number",
+    verbose: "-v,--verbose:boolean",
+    version: "--version:boolean",
+  } as const;
+  for (const [cmd, expectedSuggestions] of [
+    ["--prot 8080", ["--port"]],
+    ["--pot", ["--port"]],
+    ["--verison", ["--version"]],
+    ["--versio", ["--version"]],
+    ["--verbos", ["--verbose"]],
+    ["--prt", ["--port"]],
+    ["--help", []],
+    ["-x", []],
+  ] as const) {
+    test("suggestions: " + cmd, () => {
+      const issues = expectIssues(() =>
+        parseArgs(cmd.split(/\s+/), opt, options)
+      );
+      deepStrictEqual(issues[0].suggestions, expectedSuggestions);
+      if (expectedSuggestions.length > 0) {
+        assertMatches(
+          new RegExp(`did you mean ${expectedSuggestions.join(" or ")}\\?`),
+          issues[0].message
+        );
+      } else {
+        assert(!/did you mean/.test(issues[0].message));
+      }
+    });
+  }
+}
+
+test("all issues: positionals", () => {
+  const p = { a: "<number>", b: "<number>", c: "<string>" } as const;
+  const issues = expectIssues(() =>
+    parseArgs(["x", "y"], {}, { ...options, positionals: p })
+  );
+  deepStrictEqual(
+    issues.map((issue) => issue.code),
+    ["type_mismatch", "type_mismatch", "required"]
+  );
+  strictEqual(issues[2].key, "c");
+});
+
+test("all issues: options and positionals", () => {
+  const opt = { port: "--port:number", token: "--token:string!" } as const;
+  const p = { src: "<string>" } as const;
+  const codes = (args: string[]) =>
+    expectIssues(() =>
+      parseArgs(args, opt, { ...options, positionals: p })
+    ).map((issue) => issue.code);
+  deepStrictEqual(codes(["--port", "x"]), [
+    "type_mismatch",
+    "required",
+    "required",
+  ]);
+  deepStrictEqual(codes(["a", "b"]), ["required", "too_many_arguments"]);
+  const issues = expectIssues(() =>
+    parseCommands(
+      ["serve", "--port", "x"],
+      { serve: { definitions: opt, positionals: p } },
+      options
+    )
+  );
+  deepStrictEqual(
+    issues.map((issue) => issue.key),
+    ["port", "token", "src"]
+  );
+});
+
+test("custom ValidationError", () => {
+  const e = new ValidationError("foo");
+  deepStrictEqual(e.issues, [
+    { code: "custom", key: null, name: null, value: null, message: "foo" },
+  ]);
+});
+
+const relationOpt = {
+  file: "--file:string",
+  url: "--url:string",
+  json: "--json:boolean",
+  pretty: "--pretty:boolean",
+  cert: "--cert:string",
+  key: "--key:string@KEY",
+  verbose: "-v,--verbose:boolean",
+  level: "--level:number=0",
+} as const;
+const relations = {
+  conflicts: [["json", "pretty"]],
+  requires: [["cert", "key"]],
+  implies: [["verbose", "level", 2]],
+  exactlyOne: [["file", "url"]],
+} as const;
+
+{
+  for (const [cmd, expected] of [
+    ["--file a", { file: "a", url: null, level: 0 }],
+    ["--url b --json", { file: null, url: "b", json: true }],
+    ["--url b --cert c --key d", { cert: "c", key: "d" }],
+    ["--url b -v", { verbose: true, level: 2 }],
+    ["--url b -v --level 1", { verbose: true, level: 1 }],
+  ] as const) {
+    test("relations: " + cmd, () => {
+      const { options: actual } = parseArgs(cmd.split(/\s+/), relationOpt, {
+        ...options,
+        relations,
+      });
+      for (const key in expected) {
+        deepStrictEqual((actual as any)[key], (expected as any)[key]);
+      }
+    });
+  }
+  for (const [cmd, code, expectedMessage] of [
+    [
+      "--file a --json --pretty",
+      "conflict",
+      /--json cannot be used with --pretty/,
+    ],
+    ["--file a --cert c", "missing_dependency", /--cert requires --key/],
+    ["--json", "group_violation", /exactly one of --file, --url is required/],
+    ["--file a --url b", "group_violation", /exactly one of --file, --url/],
+  ] as const) {
+    test("relations (invalid): " + cmd, () => {
+      const issues = expectIssues(() =>
+        parseArgs(cmd.split(/\s+/), relationOpt, { ...options, relations })
+      );
+      strictEqual(issues.length, 1);
+      strictEqual(issues[0].code, code);
+      assertMatches(expectedMessage, issues[0].message);
+    });
+  }
+}
+
+{
+  const r = {
+    conflicts: [["json", "pretty"]],
+    requires: [["json", "key"]],
+    implies: [
+      ["verbose", "level", 2],
+      ["verbose", "pretty", true],
+    ],
+  } as const;
+  for (const [cmd, expected] of [
+    ["--json --key k --no-pretty", { json: true, pretty: false }],
+    ["--json --key k --pretty=false", { json: true, pretty: false }],
+    ["--no-json", { json: false }],
+    ["--json=false", { json: false }],
+    ["--no-verbose", { verbose: false, level: 0 }],
+    ["--verbose=false", { verbose: false, level: 0 }],
+    ["-v --no-pretty", { level: 2, pretty: false }],
+    ["-v --pretty=false", { level: 2, pretty: false }],
+  ] as const) {
+    test("relations: false is not given: " + cmd, () => {
+      const { options: actual } = parseArgs(cmd.split(/\s+/), relationOpt, {
+        ...options,
+        relations: r,
+      });
+      for (const key in expected) {
+        deepStrictEqual((actual as any)[key], (expected as any)[key]);
+      }
+    });
+  }
+  const groups = {
+    exactlyOne: [["json", "pretty"]],
+    atLeastOne: [["json", "verbose"]],
+  } as const;
+  for (const [cmd, expectedCodes] of [
+    ["--json --no-pretty", []],
+    ["--json=false --pretty --verbose", []],
+    [
+      "--no-json --no-pretty --no-verbose",
+      ["group_violation", "group_violation"],
+    ],
+    ["--pretty=false --verbose", ["group_violation"]],
+  ] as const) {
+    test("relations: false is not given in groups: " + cmd, () => {
+      const args = cmd.split(/\s+/);
+      const run = () =>
+        parseArgs(args, relationOpt, { ...options, relations: groups });
+      if (expectedCodes.length === 0) {
+        run();
+      } else {
+        deepStrictEqual(
+          expectIssues(run).map((issue) => issue.code),
+          expectedCodes
+        );
+      }
+    });
+  }
+}
+
+test("relations: environment variable", () => {
+  const { options: actual } = parseArgs(
+    ["--url", "b", "--cert", "c"],
+    relationOpt,
+    {
+      ...options,
+      relations,
+      env: { KEY: "k" },
+    }
+  );
+  strictEqual(actual.key, "k");
+});
+
+test("relations: default value is not given", () => {
+  const issues = expectIssues(() =>
+    parseArgs(["--file", "a"], relationOpt, {
+      ...options,
+      relations: { requires: [["file", "level"]] },
+    })
+  );
+  strictEqual(issues[0].code, "missing_dependency");
+});
+
+test("relations: atLeastOne", () => {
+  const relations = { atLeastOne: [["json", "pretty"]] } as const;
+  const { options: actual } = parseArgs(["--pretty"], relationOpt, {
+    ...options,
+    relations,
+  });
+  strictEqual(actual.pretty, true);
+  const issues = expectIssues(() =>
+    parseArgs([], relationOpt, { ...options, relations })
+  );
+  assertMatches(
+    /at least one of --json, --pretty is required/,
+    issues[0].message
+  );
+});
+
+test("relations: all issues", () => {
+  const issues = expectIssues(() =>
+    parseArgs(["--json", "--pretty", "--cert", "c"], relationOpt, {
+      ...options,
+      relations,
+    })
+  );
+  deepStrictEqual(
+    issues.map((issue) => issue.code),
+    ["missing_dependency", "conflict", "group_violation"]
+  );
+});
+
+test("relations: unknown key", () => {
+  expectError(SettingsError, () =>
+    parseArgs([], relationOpt, {
+      ...options,
+      relations: { conflicts: [["json", "foo" as any]] },
+    })
+  );
+});
+
+test("relations: invalid implied value", () => {
+  for (const value of ["oops", null, [1]]) {
+    expectError(SettingsError, () =>
+      parseArgs([], relationOpt, {
+        ...options,
+        relations: { implies: [["verbose", "level", value as any]] },
+      })
+    );
+  }
+  const o = { mode: `--mode:"a"|"b"`, v: "-v,--verbose:boolean" } as const;
+  expectError(SettingsError, () =>
+    parseArgs([], o, {
+      ...options,
+      relations: { implies: [["v", "mode", "c" as any]] },
+    })
+  );
+  const { options: actual } = parseArgs(["-v"], o, {
+    ...options,
+    relations: { implies: [["v", "mode", "b"]] },
+  });
+  strictEqual(actual.mode, "b");
+});
+
+test("relations: commands", () => {
+  const commands = {
+    fetch: {
+      definitions: relationOpt,
+      relations: { exactlyOne: [["file", "url"]] },
+    },
+  } as const;
+  const result = parseCommands(["fetch", "--url", "a"], commands, options);
+  strictEqual(result.options.url, "a");
+  const issues = expectIssues(() =>
+    parseCommands(["fetch"], commands, options)
+  );
+  strictEqual(issues[0].code, "group_violation");
+});
+
+const positionals = {
+  src: "<string>; Source file",
+  count: "<number>",
+  mode: "[string]; Mode",
+  files: "[string]...; Files",
+} as const;
+
+{
+  for (const [cmd, expected] of [
+    ["a 1", { src: "a", count: 1, mode: null, files: [] }],
+    ["1 2 x", { src: "1", count: 2, mode: "x", files: [] }],
+    ["a 1 x y z", { src: "a", count: 1, mode: "x", files: ["y", "z"] }],
+  ] as const) {
+    test("positionals: " + cmd, () => {
+      const result = parseArgs(
+        cmd.split(/\s+/),
+        {},
+        {
+          ...options,
+          positionals,
+        }
+      );
+      deepStrictEqual(result.positionals, expected);
+    });
+  }
+}
+
+{
+  for (const [cmd, p, expectedMessage] of [
+    ["", positionals, /<src> is required/],
+    ["a", positionals, /<count> is required/],
+    ["a b", positionals, /<count> should be a number: b/],
+    ["", { a: "<string>..." }, /<a> is required/],
+    ["a b", { a: "<string>", b: "[number]" }, /<b> should be a number: b/],
+    ["a b c", { a: "<string>", b: "[string]" }, /too many arguments: c/],
+  ] as const) {
+    test("positionals (invalid): " + cmd + " | " + JSON.stringify(p), () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const message = expectError(ValidationError, () =>
+        parseArgs(
+          args,
+          {},
+          {
+            ...options,
+            positionals: p as Record<string, string>,
+          }
+        )
+      );
+      assertMatches(expectedMessage, message);
+    });
+  }
+}
+
+{
+  for (const p of [
+    { a: "[string]", b: "<string>" },
+    { a: "[string]...", b: "[string]" },
+    { a: "<string>...", b: "<string>..." },
+  ]) {
+    test("positionals (invalid settings): " + JSON.stringify(p), () => {
+      expectError(SettingsError, () =>
+        parseArgs([], {}, { ...options, positionals: p })
+      );
+    });
+  }
+}
+
+test("positionals: syntax error", () => {
+  const message = expectError(SettingsError, () =>
+    parseArgs([], {}, { ...options, positionals: { src: "<strin>" } })
+  );
+  strictEqual(message, "Syntax error in positional src: <strin>");
+});
+
+test("positionals: help", () => {
+  const opt = { help: "--help:boolean" } as const;
+  const result = parseArgs(["a", "1"], opt, {
+    ...options,
+    name: "tool",
+    positionals,
+  });
+  const message = result.help(null);
+  assertMatches(
+    /^Usage: tool \[<options>\] <src> <count> \[mode\] \[files\]...\n/,
+    message
+  );
+  assertMatches(
+    /Arguments:\n  src +Source file\n  count *\n  mode +Mode\n/,
+    message
+  );
+});
+
+test("positionals: commands", () => {
+  const cmds = {
+    copy: {
+      definitions: {},
+      positionals: { src: "<string>", dest: "<string>" },
+    },
+  } as const;
+  const result = parseCommands(["copy", "a", "b"], cmds, {
+    ...options,
+    name: "tool",
+  });
+  deepStrictEqual(result.positionals, { src: "a", dest: "b" });
+  let dest = assertType<string>(result.positionals.dest);
+  assertMatches(
+    /^Usage: tool copy \[<options>\] <src> <dest>\n/,
+    result.help(null)
+  );
+});
+
+let configCount = 0;
+function writeConfig(content: string): string {
+  const name = `typed-args-${process.pid}-${configCount++}.json`;
+  const file = path.join(os.tmpdir(), name);
+  fs.writeFileSync(file, content);
+  process.on("exit", () => fs.unlinkSync(file));
+  return file;
+}
+
+{
+  const file = writeConfig(
+    JSON.stringify({ port: 8080, name: "foo", paths: ["a", "b"], cors: true })
+  );
+  const opt = {
+    port: "-p,--port:number=3000",
+    name: "--name:string!",
+    paths: "--paths:string[]",
+    cors: "--cors:boolean",
+    address: `--address:string="0.0.0.0"`,
+  } as const;
+  const expectedFromFile = {
+    port: 8080,
+    name: "foo",
+    paths: ["a", "b"],
+    cors: true,
+    address: "0.0.0.0",
+  };
+  for (const [cmd, expected] of [
+    ["", expectedFromFile],
+    ["-p 1 --name=bar", { ...expectedFromFile, port: 1, name: "bar" }],
+    ["--paths=c", { ...expectedFromFile, paths: ["c"] }],
+  ] as const) {
+    test("config file: " + cmd, () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const config = { path: file };
+      const { options: actual } = parseArgs(args, opt, { ...options, config });
+      deepStrictEqual(actual, expected);
+    });
+  }
+  test("config file: key", () => {
+    const optWithConfig = { ...opt, config: "-c,--config:string" } as const;
+    const config = { key: "config" };
+    const { options: actual } = parseArgs(["-c", file], optWithConfig, {
+      ...options,
+      config,
+    });
+    deepStrictEqual(actual, { ...expectedFromFile, config: file });
+    const message = expectError(ValidationError, () =>
+      parseArgs([], optWithConfig, { ...options, config })
+    );
+    assertMatches(/--name is required/, message);
+  });
+  test("config file: inherited properties", () => {
+    const o = {
+      ...opt,
+      c: "--constructor:string",
+      v: "--valueOf:string",
+    } as const;
+    const config = { path: file };
+    const { options: actual } = parseArgs([], o, { ...options, config });
+    deepStrictEqual(actual, { ...expectedFromFile, c: null, v: null });
+  });
+  test("config file: key of non-string option", () => {
+    const config = { key: "port" };
+    expectError(SettingsError, () =>
+      parseArgs([], opt, { ...options, config })
+    );
+  });
+}
+
+{
+  for (const [content, expectedMessage] of [
+    [`{ "port": "80" }`, /port in .* should be a number/],
+    [`{ "port": [1, 2] }`, /port in .* should not have multiple values/],
+    [`{ "cors": "true" }`, /cors in .* should be a boolean/],
+    [`{ "paths": [1, true] }`, /paths in .* should be a string/],
+    [`{ "unknown": 1 }`, /unknown option in .*: unknown$/],
+    [`{ "prot": 1 }`, /unknown option in .*: prot \(did you mean port\?\)/],
+    [`{`, /could not parse config file/],
+    [`[]`, /config file should be an object/],
+  ] as const) {
+    test("config file (invalid): " + content, () => {
+      const file = writeConfig(content);
+      const opt = {
+        port: "--port:number",
+        cors: "--cors:boolean",
+        paths: "--paths:string[]",
+      } as const;
+      const config = { path: file };
+      const message = expectError(ValidationError, () =>
+        parseArgs([], opt, { ...options, config })
+      );
+      assertMatches(expectedMessage, message);
+    });
+  }
+  test("config file (not found)", () => {
+    const config = { path: "not-found.json" };
+    const message = expectError(ValidationError, () =>
+      parseArgs([], {}, { ...options, config })
+    );
+    assertMatches(/could not read config file: not-found.json/, message);
+  });
+}
+
+let inputCount = 0;
+function promptWith(answers: string[]) {
+  const name = `typed-args-${process.pid}-input-${inputCount++}`;
+  const file = path.join(os.tmpdir(), name);
+  fs.writeFileSync(file, answers.map((answer) => answer + "\n").join(""));
+  const fd = fs.openSync(file, "r");
+  process.on("exit", () => {
+    fs.closeSync(fd);
+    fs.unlinkSync(file);
+  });
+  let written = "";
+  const output = { write: (s: string) => (written += s) };
+  return { input: { fd, isTTY: true }, output, written: () => written };
+}
+
+{
+  const opt = {
+    token: "--token:string!; API token",
+    port: "--port:number!",
+    mode: `--mode:"dev"|"prod"!; Mode`,
+    name: "--name:string",
+  } as const;
+  for (const [answers, expected] of [
+    [["abc", "80", "2"], { token: "abc", port: 80, mode: "prod", name: null }],
+    [["abc", "", "x", "80", "dev"], { token: "abc", port: 80, mode: "dev" }],
+  ] as const) {
+    test("prompt: " + JSON.stringify(answers), () => {
+      const prompt = promptWith([...answers]);
+      const { options: actual } = parseArgs([], opt, { ...options, prompt });
+      for (const key in expected) {
+        deepStrictEqual((actual as any)[key], (expected as any)[key]);
+      }
+    });
+  }
+  test("prompt: output", () => {
+    const prompt = promptWith(["abc", "x", "80", "1"]);
+    parseArgs([], opt, { ...options, prompt });
+    strictEqual(
+      prompt.written(),
+      [
+        "API token (--token): ",
+        "--port: ",
+        "Error: --port should be a number\n",
+        "--port: ",
+        "Mode (--mode):\n",
+        "  1) dev\n",
+        "  2) prod\n",
+        "Select 1-2: ",
+      ].join("")
+    );
+  });
+  test("prompt: only missing options", () => {
+    const prompt = promptWith(["1"]);
+    const { options: actual } = parseArgs(
+      ["--token", "t", "--port", "1"],
+      opt,
+      { ...options, prompt }
+    );
+    strictEqual(actual.mode, "dev");
+  });
+  test("prompt: end of input", () => {
+    const prompt = promptWith(["abc"]);
+    const issues = expectIssues(() =>
+      parseArgs([], opt, { ...options, prompt })
+    );
+    deepStrictEqual(
+      issues.map((issue) => issue.key),
+      ["port", "mode"]
+    );
+  });
+  test("prompt: not a TTY", () => {
+    const prompt = promptWith(["abc", "80", "2"]);
+    const issues = expectIssues(() =>
+      parseArgs([], opt, {
+        ...options,
+        prompt: { ...prompt, input: { ...prompt.input, isTTY: false } },
+      })
+    );
+    strictEqual(issues.length, 3);
+    strictEqual(prompt.written(), "");
+  });
+}
+
+const commands = {
+  build: {
+    description: "Build the project",
+    definitions: {
+      watch: "-w,--watch:boolean; Watch files",
+    },
+  },
+  serve: {
+    description: "Start the server",
+    usage: "tool serve [<options>]",
+    definitions: {
+      port: "-p,--port:number=3000; Port to use",
+    },
+  },
+} as const;
+const globals = {
+  config: "-c,--config:string; Config file",
+  help: "--help:boolean; Show this help",
+} as const;
+
+{
+  for (const [cmd, expectedCommand, expectedOptions, expectedTargets] of [
+    ["build -w", "build", { config: null, help: false, watch: true }, []],
+    [
+      "-c foo.json serve a",
+      "serve",
+      { config: "foo.json", help: false, port: 3000 },
+      ["a"],
+    ],
+    [
+      "serve --port 80 -c foo.json",
+      "serve",
+      { config: "foo.json", help: false, port: 80 },
+      [],
+    ],
+  ] as const) {
+    test("commands: " + cmd, () => {
+      const result = parseCommands(cmd.split(/\s+/), commands, {
+        ...options,
+        globals,
+      });
+      strictEqual(result.command, expectedCommand);
+      deepStrictEqual(result.options, expectedOptions);
+      deepStrictEqual(result.targets, expectedTargets);
+    });
+  }
+}
+
+{
+  for (const [cmd, expectedMessage] of [
+    ["", /command is required/],
+    ["-c foo.json", /command is required/],
+    ["deploy", /unknown command: deploy/],
+    ["build --port 80", /unknown option: --port/],
+    ["serve --watch", /unknown option: --watch/],
+  ] as const) {
+    test("commands (invalid): " + cmd, () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const message = expectError(ValidationError, () =>
+        parseCommands(args, commands, { ...options, globals })
+      );
+      assertMatches(expectedMessage, message);
+    });
+  }
+}
+
+test("commands: key conflicts with globals", () => {
+  const cmds = { a: { definitions: { config: "--foo:string" } } } as const;
+  expectError(SettingsError, () =>
+    parseCommands([], cmds, { ...options, globals })
+  );
+});
+
+test("help layout: commands", () => {
+  const result = parseCommands(["build"], commands, {
+    ...options,
+    globals,
+    help: { sections: [{ title: "Build", keys: ["watch"] }] },
+  });
+  assertMatches(/Build:\n  -w, --watch/, result.help(null));
+});
+
+test("commands: help", () => {
+  const result = parseCommands(["serve"], commands, { ...options, globals });
+  const message = result.help(null);
+  assertMatches(/^Usage: tool serve/, message);
+  assertMatches(/--port/, message);
+  assertMatches(/--config/, message);
+  const top = expectError(ValidationError, () =>
+    parseCommands([], commands, { ...options, globals })
+  );
+  strictEqual(top, "command is required");
+});
+
+{
+  const opt = {
+    port: "-p,--port:number; Port to use",
+    mode: `--mode:"dev"|"prod"; Mode`,
+    cors: "--cors:boolean; Enable CORS",
+    file: "--file:string",
+  } as const;
+  test("completion: bash", () => {
+    const script = makeCompletion("bash", "tool", opt);
+    assertMatches(/-p\|--port\)\n +return 0/, script);
+    assertMatches(/--mode\)\n +COMPREPLY=\(\$\(compgen -W "dev prod"/, script);
+    assertMatches(/--file\)\n +COMPREPLY=\(\$\(compgen -f/, script);
+    assert(!/--cors\)/.test(script));
+    assertMatches(/compgen -W "-p --port --mode --cors --file"/, script);
+    assertMatches(/complete -F _tool_completion tool/, script);
+  });
+  test("completion: zsh", () => {
+    const script = makeCompletion("zsh", "tool", opt);
+    assertMatches(
+      /'\(-p --port\)'\{-p,--port\}'\[Port to use\]:port: '/,
+      script
+    );
+    assertMatches(/'--mode\[Mode\]:mode:\(dev prod\)'/, script);
+    assertMatches(/'--cors\[Enable CORS\]'/, script);
+    assertMatches(/'\*:file:_files'/, script);
+  });
+  test("completion: fish", () => {
+    const script = makeCompletion("fish", "tool", opt);
+    assertMatches(/complete -c tool -s p -l port -x -d 'Port to use'/, script);
+    assertMatches(
+      /complete -c tool -l mode -x -a 'dev prod' -d 'Mode'/,
+      script
+    );
+    assertMatches(/complete -c tool -l cors -d 'Enable CORS'\n/, script);
+    assertMatches(/complete -c tool -l file -r\n/, script);
+  });
+  test("completion: commands", () => {
+    const bash = makeCommandsCompletion("bash", "tool", commands, globals);
+    assertMatches(/compgen -W "build serve"/, bash);
+    const zsh = makeCommandsCompletion("zsh", "tool", commands, globals);
+    assertMatches(/'build\[Build the project\]'/, zsh);
+    const fish = makeCommandsCompletion("fish", "tool", commands, globals);
+    assertMatches(
+      /complete -c tool -n __fish_use_subcommand -f -a 'serve' -d 'Start the server'/,
+      fish
+    );
+    assertMatches(
+      /complete -c tool -n '__fish_seen_subcommand_from serve' -s p -l port -x/,
+      fish
+    );
+  });
+  test("completion: invalid shell", () => {
+    const message = expectError(ValidationError, () =>
+      parseArgs(["--completion", "cmd"], opt, { ...options, completion: true })
+    );
+    assertMatches(
+      /--completion should be one of bash, zsh, fish: cmd/,
+      message
+    );
+  });
+}
+
+test("json schema", () => {
+  const opt = {
+    port: "-p,--port:number{integer,min:1,max:65535}=3000; Port to use",
+    mode: `--mode:"dev"|"prod"!; Mode`,
+    tags: "--tags:string[]{pattern:/^\\w+$/,maxItems:3}",
+    cors: "--cors:boolean",
+    verbose: "-v,--verbose:count",
+    timeout: "--timeout:duration=30s",
+    labels: "--labels:Record<string,number>{min:0}",
+  } as const;
+  deepStrictEqual(makeJsonSchema(opt, types), {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    type: "object",
+    properties: {
+      port: {
+        type: "integer",
+        minimum: 1,
+        maximum: 65535,
+        description: "Port to use",
+        default: 3000,
+      },
+      mode: { type: "string", enum: ["dev", "prod"], description: "Mode" },
+      tags: {
+        type: "array",
+        items: { type: "string", pattern: "^\\w+$" },
+        maxItems: 3,
+        default: [],
+      },
+      cors: { type: "boolean", default: false },
+      verbose: { type: "integer", minimum: 0, default: 0 },
+      timeout: { type: "string", default: "30s" },
+      labels: {
+        type: "object",
+        additionalProperties: { type: "number", minimum: 0 },
+        default: {},
+      },
+    },
+    required: ["mode"],
+    additionalProperties: false,
+  });
+});
+
+function example(
+  args: string,
+  path = "dist/test/example"
+): { status: number | null; stdout: string; stderr: string } {
+  return spawnSync("node", [path, ...args.split(/\s+/)], {
+    encoding: "utf8",
+  });
+}
+
+test("example", () => {
+  const { status, stdout } = example("-p 3001 --cors");
+  strictEqual(status, 0);
+  strictEqual(stdout.trim(), "3001 0.0.0.0 true");
+});
+
+test("example: --help", () => {
+  const { status, stdout } = example("--help");
+  strictEqual(status, 0);
+  process.stdout.write(stdout);
+});
+
+test("example: command --help", () => {
+  const { status, stdout } = example(
+    "serve --help",
+    "dist/test/example-commands"
+  );
+  strictEqual(status, 0);
+  assertMatches(/Usage: command serve/, stdout);
+  assertMatches(/--port/, stdout);
+});
+
+test("example: commands --help", () => {
+  const { status, stdout } = example("--help", "dist/test/example-commands");
+  strictEqual(status, 0);
+  assertMatches(
+    /Commands:\n  build +Build the project\n  serve +Start the server/,
+    stdout
+  );
+  assertMatches(/--verbose/, stdout);
+});
+
+test("example: --completion", () => {
+  const { status, stdout } = example("--completion fish");
+  strictEqual(status, 0);
+  assertMatches(
+    /^complete -c example -s p -l port -x -d 'Port to use'\n/,
+    stdout
+  );
+});
+
+test("example: invalid", () => {
+  const { status, stderr } = example("--unknown");
+  strictEqual(status, 1);
+  process.stdout.write(stderr);
+});
+
+test("example: multiple errors", () => {
+  const { status, stderr } = example("--unknown -p x");
+  strictEqual(status, 1);
+  assertMatches(
+    /^Error: -p should be a number\nError: unknown option: --unknown\n/,
+    stderr
+  );
+});
+
+function assertType<T>(t: T): T {
+  return t;
+}
+
+test("types", () => {
+  const opt = {
+    b1: `--b1:boolean`,
+    b2: `--b2:boolean=true`,
+    b3: `--b3:boolean!`,
+    n1: `--n1:number`,
+    n2: `--n2:number=1`,
+    n3: `--n3:number!`,
+    na1: `--na1:number[]`,
+    na2: `--na2:number[]=[]`,
+    na3: `--na3:number[]!`,
+    s1: `--s1:string`,
+    s2: `--s2:string=""`,
+    s3: `--s3:string!`,
+    sa1: `--sa1:string[]`,
+    sa2: `--sa2:string[]=[]`,
+    sa3: `--sa3:string[]!`,
+    e1: `--e1:number @E1`,
+    e2: `--e2:number=1 @E2`,
+    c1: `--c1:"x"|"y"`,
+    c2: `--c2 : "x" | "y" = "x"`,
+    c3: `--c3:"x"|"y"!`,
+    ca1: `--ca1:("x"|"y")[]`,
+    ca2: `--ca2 : ( "x" | "y" ) [ ]`,
+    cnt: `-v,--cnt:count`,
+    cs1: `--cs1:number{integer}`,
+    cs2: `--cs2:number{min:0}=1`,
+    cs3: `--cs3:string{pattern:/^a/}!`,
+  } as const;
+  let {
+    options: {
       b1,
       b2,
       b3,
@@ -476,8 +2098,19 @@ test("types", () => {
       sa1,
       sa2,
       sa3,
+      e1,
+      e2,
+      c1,
+      c2,
+      c3,
+      ca1,
+      ca2,
+      cnt,
+      cs1,
+      cs2,
+      cs3,
     },
-  } = parseArgs(["--n3=1", "--s3="], opt, options);
+  } = parseArgs(["--n3=1", "--s3=", "--c3=x", "--cs3=a"], opt, options);
   b1 = assertType<boolean>(b1);
   b2 = assertType<boolean>(b2);
   b3 = assertType<boolean>(b3);
@@ -493,4 +2126,877 @@ test("types", () => {
   sa1 = assertType<string[]>(sa1);
   sa2 = assertType<string[]>(sa2);
   sa3 = assertType<string[]>(sa3);
+  e1 = assertType<number | null>(e1);
+  e2 = assertType<number>(e2);
+  c1 = assertType<"x" | "y" | null>(c1);
+  c2 = assertType<"x" | "y">(c2);
+  c3 = assertType<"x" | "y">(c3);
+  ca1 = assertType<("x" | "y")[]>(ca1);
+  ca2 = assertType<("x" | "y")[]>(ca2);
+  cnt = assertType<number>(cnt);
+  cs1 = assertType<number | null>(cs1);
+  cs2 = assertType<number>(cs2);
+  cs3 = assertType<string>(cs3);
+});
+
+test("command types", () => {
+  const result = parseCommands(["serve"], commands, { ...options, globals });
+  let config = assertType<string | null>(result.options.config);
+  if (result.command === "serve") {
+    let port = assertType<number>(result.options.port);
+  } else {
+    let watch = assertType<boolean>(result.options.watch);
+  }
+});
+
+test("positional types", () => {
+  const p = {
+    s1: "<string>",
+    n1: "< number >",
+    s2: "[string]",
+    n2: "[ number ]",
+    sa: "[string]...",
+  } as const;
+  let {
+    positionals: { s1, n1, s2, n2, sa },
+  } = parseArgs(["a", "1"], {}, { ...options, positionals: p });
+  let {
+    positionals: { na },
+  } = parseArgs(
+    ["1"],
+    {},
+    { ...options, positionals: { na: "<number> ..." } as const }
+  );
+  s1 = assertType<string>(s1);
+  n1 = assertType<number>(n1);
+  s2 = assertType<string | null>(s2);
+  n2 = assertType<number | null>(n2);
+  sa = assertType<string[]>(sa);
+  na = assertType<number[]>(na);
+});
+
+test("custom types: types", () => {
+  const opt = {
+    t1: "--t1:duration",
+    t2: "--t2:duration=1s",
+    t3: "--t3 : duration !",
+    ta: "--ta:duration[]",
+    u1: "--u1:url",
+    s1: "--s1:string",
+  } as const;
+  let {
+    options: { t1, t2, t3, ta, u1, s1 },
+  } = parseArgs(["--t3=1s"], opt, { ...options, types });
+  t1 = assertType<number | null>(t1);
+  t2 = assertType<number>(t2);
+  t3 = assertType<number>(t3);
+  ta = assertType<number[]>(ta);
+  u1 = assertType<URL | null>(u1);
+  s1 = assertType<string | null>(s1);
+});
+
+test("relations: types", () => {
+  const { options: o } = parseArgs(["--file", "a"], relationOpt, {
+    ...options,
+    relations,
+  });
+  if (o.file === null) {
+    assertType<string>(o.url);
+  } else {
+    assertType<string>(o.file);
+    assertType<null>(o.url);
+  }
+  assertType<string | null>(o.cert);
+  // @ts-expect-error
+  assertType<string>(o.cert);
+  expectError(SettingsError, () =>
+    parseArgs([], relationOpt, {
+      ...options,
+      relations: {
+        implies: [
+          ["verbose", "level", 2],
+          ["verbose", "cert", "c"],
+          // @ts-expect-error
+          ["verbose", "level", "x"],
+        ],
+      },
+    })
+  );
+  const commands = {
+    fetch: {
+      definitions: relationOpt,
+      relations: { exactlyOne: [["file", "url"]] },
+    },
+  } as const;
+  const result = parseCommands(["fetch", "--url", "a"], commands, options);
+  if (result.options.file === null) {
+    assertType<string>(result.options.url);
+  }
+});
+
+test("definition types", () => {
+  const check = (f: () => void) => expectError(SettingsError, f);
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--port:numbr=3000" } as const, options));
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--port:number=x" } as const, options));
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "-port,--port:number" } as const, options));
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--a:boolean=1" } as const, options));
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--a:count=-1" } as const, options));
+  // @ts-expect-error
+  check(() => parseArgs([], { a: `--a:"x"|"y"="z"` } as const, options));
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--a:string[]=x" } as const, options));
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--a:string", b: "--a:number" } as const));
+  check(() =>
+    // @ts-expect-error
+    parseArgs([], { a: "-a,--a1:string", b: "-a,--a2:string" } as const)
+  );
+  check(() =>
+    parseArgs([], { a: "--a:duration=x" } as const, {
+      ...options,
+      types,
+    })
+  );
+  check(() =>
+    parseCommands(
+      [],
+      // @ts-expect-error
+      { build: { definitions: { a: "--a:numbr" } } } as const,
+      options
+    )
+  );
+  parseArgs(
+    [],
+    {
+      a: ` -n , --num : number [ ] = [ 1 , 2 ]; bla bla `,
+      b: `--b:string{pattern:/^[a-z}]+$/}="a}" @B; B: b`,
+      c: `--c:("x"|"y")[]=["x"]`,
+      d: `--d:string[]=[ "; \\"" , ",[,]" ]`,
+      e: `-x,--e:count=2`,
+      f: `--f:url`,
+    } as const,
+    { ...options, env: {}, types }
+  );
+});
+
+{
+  const opt = {
+    config: "-c,--config:string; Config file",
+    branch: '--branch:string="main"',
+    depth: "--depth:number=1",
+  } as const;
+  const branches = ["main", "dev"];
+  const checks = {
+    branch: {
+      validate: async (branch: string) => {
+        if (!branches.includes(branch)) {
+          throw new Error(`branch not found: ${branch}`);
+        }
+      },
+    },
+    config: {
+      transform: async (file: string) => ({ file, size: file.length }),
+    },
+    depth: {
+      validate: async (depth: number) => {
+        if (depth > 10) {
+          throw new ValidationError("--depth is too deep");
+        }
+      },
+    },
+  };
+  test("async: ok", async () => {
+    const { options: actual } = await parseArgsAsync(
+      ["-c", "a.json", "--branch", "dev"],
+      opt,
+      { ...options, checks }
+    );
+    deepStrictEqual(actual, {
+      config: { file: "a.json", size: 6 },
+      branch: "dev",
+      depth: 1,
+    });
+    const { options: o } = await parseArgsAsync([], opt, {
+      ...options,
+      checks,
+    });
+    strictEqual(o.config, null);
+  });
+  test("async: invalid", async () => {
+    const issues = await expectErrorAsync(ValidationError, () =>
+      parseArgsAsync(["--depth", "11", "--branch", "x"], opt, {
+        ...options,
+        checks,
+      })
+    );
+    deepStrictEqual(
+      issues.map(({ code, key, message }) => [code, key, message]),
+      [
+        ["custom", "branch", "--branch is invalid: branch not found: x"],
+        ["custom", "depth", "--depth is too deep"],
+      ]
+    );
+  });
+  test("async: sync validation comes first", async () => {
+    await expectErrorAsync(ValidationError, () =>
+      parseArgsAsync(["--depth", "x"], opt, { ...options, checks })
+    );
+  });
+  test("async: types", async () => {
+    const { options: o } = await parseArgsAsync([], opt, {
+      ...options,
+      checks,
+    });
+    assertType<{ file: string; size: number } | null>(o.config);
+    assertType<string>(o.branch);
+    assertType<number>(o.depth);
+    parseArgsAsync([], opt, {
+      ...options,
+      // @ts-expect-error
+      checks: { depth: { validate: async (depth: string) => {} } },
+    }).catch(() => {});
+  });
+}
+
+class Exit {
+  constructor(public code: number) {}
+}
+function ioWith() {
+  const out = { stdout: "", stderr: "", code: null as number | null };
+  const io = {
+    stdout: { write: (s: string) => (out.stdout += s) },
+    stderr: { write: (s: string) => (out.stderr += s) },
+    exit: (code: number): never => {
+      out.code = code;
+      throw new Exit(code);
+    },
+  };
+  return { io, out };
+}
+function expectExit(f: () => unknown): void {
+  try {
+    f();
+  } catch (e) {
+    if (e instanceof Exit) {
+      return;
+    }
+    throw e;
+  }
+  fail("expected exit but not exited");
+}
+{
+  const opt = {
+    port: "-p,--port:number=3000; Port to use",
+    help: "--help:boolean; Show this help",
+  } as const;
+  test("io: help", () => {
+    const { io, out } = ioWith();
+    expectExit(() => parseArgs(["--help"], opt, { usage: "server", io }));
+    strictEqual(out.code, 0);
+    assertMatches(
+      /^Usage: server\nOptions:\n  -p, --port <number>/,
+      out.stdout
+    );
+    strictEqual(out.stderr, "");
+  });
+  test("io: error", () => {
+    const { io, out } = ioWith();
+    expectExit(() => parseArgs(["--prot", "80"], opt, { io }));
+    strictEqual(out.code, 1);
+    strictEqual(out.stdout, "");
+    assertMatches(/^Error: unknown option: --prot/, out.stderr);
+    assertMatches(/\nOptions:\n/, out.stderr);
+  });
+  test("io: help function", () => {
+    const { io, out } = ioWith();
+    const { help } = parseArgs([], opt, { io });
+    expectExit(() => help(2));
+    strictEqual(out.code, 2);
+    strictEqual(out.stderr, help(null) + "\n");
+  });
+  test("io: completion", () => {
+    const { io, out } = ioWith();
+    expectExit(() =>
+      parseArgs(["--completion", "bash"], opt, {
+        name: "server",
+        completion: true,
+        io,
+      })
+    );
+    strictEqual(out.code, 0);
+    strictEqual(out.stdout, makeCompletion("bash", "server", opt));
+  });
+  test("io: completion with an inline shell", () => {
+    const { io, out } = ioWith();
+    expectExit(() =>
+      parseArgs(["--completion=zsh"], opt, {
+        name: "server",
+        completion: true,
+        io,
+      })
+    );
+    strictEqual(out.code, 0);
+    strictEqual(out.stdout, makeCompletion("zsh", "server", opt));
+    const commands = { serve: { definitions: opt } };
+    const result = ioWith();
+    expectExit(() =>
+      parseCommands(["serve", "--completion=fish"], commands, {
+        name: "server",
+        completion: true,
+        io: result.io,
+      })
+    );
+    strictEqual(result.out.code, 0);
+    assertMatches(/__fish_seen_subcommand_from serve/, result.out.stdout);
+  });
+  test("io: completion defined by the user", () => {
+    const { io, out } = ioWith();
+    const definitions = { ...opt, completion: "--completion:string" };
+    const result = parseArgs(["--completion", "bash"], definitions, {
+      completion: true,
+      io,
+    });
+    strictEqual(result.options.completion, "bash");
+    strictEqual(out.stdout, "");
+    const { options: parsed } = parseArgs(
+      ["--completion", "bash"],
+      { ...opt, shell: "--completion:string" },
+      { completion: true, io }
+    );
+    strictEqual(parsed.shell, "bash");
+    strictEqual(out.stdout, "");
+  });
+  test("io: color", () => {
+    const { io, out } = ioWith();
+    const { help } = parseArgs([], opt, {
+      io: { ...io, stdout: { ...io.stdout, isTTY: true } },
+      help: { color: "auto" },
+    });
+    assertMatches(/\x1b\[1mOptions:/, help(null));
+    strictEqual(out.stdout, "");
+  });
+  test("io: color on error", () => {
+    const { io, out } = ioWith();
+    expectExit(() =>
+      parseArgs(["--bad"], opt, {
+        io: { ...io, stdout: { ...io.stdout, isTTY: true } },
+        help: { color: "auto" },
+      })
+    );
+    strictEqual(out.code, 1);
+    assertMatches(/\nOptions:\n/, out.stderr);
+    strictEqual(/\x1b/.test(out.stderr), false);
+    const { io: io2, out: out2 } = ioWith();
+    expectExit(() =>
+      parseArgs(["--bad"], opt, {
+        io: { ...io2, stderr: { ...io2.stderr, isTTY: true } },
+        help: { color: "auto" },
+      })
+    );
+    assertMatches(/\x1b\[1mOptions:/, out2.stderr);
+  });
+  test("io: commands", () => {
+    const { io, out } = ioWith();
+    expectExit(() =>
+      parseCommands(
+        ["serve", "--help"],
+        { serve: { definitions: { port: "--port:number" } } } as const,
+        { globals: { help: "--help:boolean" } as const, io }
+      )
+    );
+    strictEqual(out.code, 0);
+    assertMatches(/--port <number>/, out.stdout);
+    const { io: io2, out: out2 } = ioWith();
+    expectExit(() =>
+      parseCommands([], { serve: { definitions: {} } } as const, { io: io2 })
+    );
+    strictEqual(out2.code, 1);
+    assertMatches(/^Error: command is required\n/, out2.stderr);
+  });
+  test("io: async", async () => {
+    const { io, out } = ioWith();
+    try {
+      await parseArgsAsync(["-p", "1"], opt, {
+        io,
+        checks: {
+          port: {
+            validate: async () => {
+              throw new Error("in use");
+            },
+          },
+        },
+      });
+      fail("expected exit but not exited");
+    } catch (e) {
+      if (!(e instanceof Exit)) {
+        throw e;
+      }
+    }
+    strictEqual(out.code, 1);
+    assertMatches(/^Error: --port is invalid: in use\n/, out.stderr);
+  });
+}
+
+test("record: types", () => {
+  const { options: o } = parseArgs([], {
+    a: "-D,--define:Record<string,string>",
+    b: "--b:Record< string , number >",
+  } as const);
+  assertType<Record<string, string>>(o.a);
+  assertType<Record<string, number>>(o.b);
+  const check = (f: Function) => expectError(SettingsError, f);
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--a:Record<number,string>" } as const));
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--a:Record<string,string>=1" } as const));
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--a:Record<string,string" } as const));
+  parseArgs([], { a: `--a:Record<string,number>={"a":1}` } as const);
+});
+
+{
+  const opt = {
+    port: "-p,--port:number=3000; Port to use",
+    help: "--help:boolean; Show this help",
+  } as const;
+  test("version: string", () => {
+    const { io, out } = ioWith();
+    expectExit(() => parseArgs(["--version"], opt, { version: "1.2.3", io }));
+    strictEqual(out.code, 0);
+    strictEqual(out.stdout, "1.2.3\n");
+  });
+  test("version: package.json", () => {
+    const { io, out } = ioWith();
+    expectExit(() => parseArgs(["--version"], opt, { version: true, io }));
+    const { version } = JSON.parse(fs.readFileSync("package.json", "utf8"));
+    strictEqual(out.stdout, `${version}\n`);
+  });
+  test("version: not given", () => {
+    const { io } = ioWith();
+    const { options: actual } = parseArgs(["-p", "80"], opt, {
+      version: "1.2.3",
+      io,
+    });
+    deepStrictEqual(actual, { port: 80, help: false });
+  });
+  test("version: defined", () => {
+    const { io, out } = ioWith();
+    const o = { ...opt, version: "-V,--version:boolean; Print version" };
+    expectExit(() => parseArgs(["-V"], o, { version: "1.2.3", io }));
+    strictEqual(out.stdout, "1.2.3\n");
+    const { options: actual } = parseArgs([], o, { version: "1.2.3", io });
+    strictEqual(actual.version, false);
+  });
+  test("version: required options", () => {
+    const o = { ...opt, x: "--x:number!" };
+    for (const args of [["--version"], ["--version", "--x", "a"]]) {
+      const { io, out } = ioWith();
+      expectExit(() => parseArgs(args, o, { version: "1.2.3", io }));
+      strictEqual(out.code, 0);
+      strictEqual(out.stdout, "1.2.3\n");
+    }
+    const { io, out } = ioWith();
+    expectExit(() => parseArgs(["--help"], o, { io }));
+    strictEqual(out.code, 0);
+    strictEqual(out.stderr, "");
+    const commands = { serve: { definitions: o } } as const;
+    const { io: io2, out: out2 } = ioWith();
+    expectExit(() =>
+      parseCommands(["serve", "--version"], commands, {
+        version: "1.2.3",
+        io: io2,
+      })
+    );
+    strictEqual(out2.stdout, "1.2.3\n");
+  });
+  test("version: disabled", () => {
+    expectError(ValidationError, () => parseArgs(["--version"], opt, options));
+  });
+  test("version: help", () => {
+    const { help } = parseArgs([], opt, { ...options, version: "1.2.3" });
+    assertMatches(/\n  --version +Show version\n$/, help(null));
+  });
+  test("version: duplicated", () => {
+    const o = { v: "--version:string" } as const;
+    expectError(SettingsError, () => parseArgs([], o, { version: "1.2.3" }));
+  });
+  test("version: commands", () => {
+    const commands = { serve: { definitions: {} } } as const;
+    const { io, out } = ioWith();
+    expectExit(() =>
+      parseCommands(["--version"], commands, { version: "1.2.3", io })
+    );
+    strictEqual(out.stdout, "1.2.3\n");
+    const { io: io2, out: out2 } = ioWith();
+    expectExit(() =>
+      parseCommands(["serve", "--version"], commands, {
+        version: "1.2.3",
+        io: io2,
+      })
+    );
+    strictEqual(out2.stdout, "1.2.3\n");
+    const { options: actual } = parseCommands(["serve"], commands, {
+      version: "1.2.3",
+    });
+    deepStrictEqual(actual, {});
+  });
+}
+
+{
+  const opt = {
+    color: "-c,-C(deprecated),--color,--colour(deprecated):boolean=true; Color",
+    old: "--old(deprecated: use --color instead):boolean; Old",
+    depth: "-d,--depth,--level(deprecated):number; Depth",
+  } as const;
+  const parse = (args: string[]) => {
+    const warnings: string[] = [];
+    const result = parseArgs(args, opt, {
+      ...options,
+      warn: (message) => warnings.push(message),
+    });
+    return { ...result, warnings };
+  };
+  for (const [cmd, expected, expectedWarnings] of [
+    ["", { color: true, old: false, depth: null }, []],
+    ["--no-color -d 1", { color: false, old: false, depth: 1 }, []],
+    [
+      "--colour=false --level 2",
+      { color: false, old: false, depth: 2 },
+      [
+        "--colour is deprecated, use --color instead",
+        "--level is deprecated, use --depth instead",
+      ],
+    ],
+    [
+      "--no-colour --no-colour",
+      { color: false, old: false, depth: null },
+      ["--no-colour is deprecated, use --no-color instead"],
+    ],
+    [
+      "-C --old",
+      { color: true, old: true, depth: null },
+      [
+        "-C is deprecated, use -c instead",
+        "--old is deprecated: use --color instead",
+      ],
+    ],
+  ] as const) {
+    test("aliases: " + cmd, () => {
+      const args = cmd ? cmd.split(/\s+/) : [];
+      const { options: actual, warnings } = parse(args);
+      deepStrictEqual(actual, expected);
+      deepStrictEqual(warnings, expectedWarnings);
+    });
+  }
+  test("aliases: default warning", () => {
+    const { io, out } = ioWith();
+    parseArgs(["--colour"], opt, { io });
+    strictEqual(
+      out.stderr,
+      "Warning: --colour is deprecated, use --color instead\n"
+    );
+  });
+  test("aliases: help", () => {
+    const message = parse([]).help(null);
+    assertMatches(/\n  -c, --\[no-\]color +Color \(default:true\)\n/, message);
+    assertMatches(
+      /\n  --old +Old \(deprecated: use --color instead\)\n/,
+      message
+    );
+    assertMatches(/\n  -d, --depth <number> +Depth\n/, message);
+  });
+  test("aliases: completion", () => {
+    const bash = makeCompletion("bash", "cmd", opt);
+    assertMatches(/compgen -W "-c --color --old -d --depth"/, bash);
+    const fish = makeCompletion("fish", "cmd", opt);
+    assertMatches(/-s c -l color -d 'Color'/, fish);
+  });
+  test("aliases: suggestions", () => {
+    const message = expectError(ValidationError, () => parse(["--dept"]));
+    assertMatches(/did you mean --depth\?/, message);
+  });
+  test("aliases: duplicated", () => {
+    const o: Record<string, string> = {
+      a: "-a,--a1,--a2:string",
+      b: "--b,--a2(deprecated):string",
+    };
+    const message = expectError(SettingsError, () => parseArgs([], o));
+    assertMatches(/Duplicated keys found: a2/, message);
+  });
+  test("aliases: invalid", () => {
+    for (const a of [
+      "-a,-b:string",
+      "--a(deprecate):string",
+      "--a(deprecated:string",
+      "--a,-ab:string",
+    ]) {
+      expectError(SettingsError, () => parseArgs([], { a }));
+    }
+  });
+  test("aliases: types", () => {
+    const { options: o } = parse([]);
+    assertType<boolean>(o.color);
+    assertType<boolean>(o.old);
+    assertType<number | null>(o.depth);
+    const check = (f: Function) => expectError(SettingsError, f);
+    const { options: o2 } = parseArgs(
+      [],
+      { a: "--a(deprecated: use x:y):number=1" } as const,
+      options
+    );
+    assertType<number>(o2.a);
+    const a = "--a,--b:string";
+    // @ts-expect-error
+    check(() => parseArgs([], { a, b: "--c,--b:string" } as const));
+    // @ts-expect-error
+    check(() => parseArgs([], { a, b: "--b(deprecated):string" } as const));
+    // @ts-expect-error
+    check(() => parseArgs([], { a: "--a(deprecate):string" } as const));
+    // @ts-expect-error
+    check(() => parseArgs([], { a: "-a,-b:string" } as const));
+    // @ts-expect-error
+    check(() => parseArgs([], { a: "--a,-ab:string" } as const));
+  });
+}
+
+{
+  const opt = {
+    port: "-p,--port:number=3000; Port to use",
+    trace: "--trace(hidden):boolean; Trace internals",
+    experimental: "-x(hidden),--experimental:boolean; Experimental",
+    help: "--help:boolean; Show this help",
+  } as const;
+  test("hidden: values", () => {
+    const { options: actual } = parseArgs(["--trace", "-x"], opt, options);
+    deepStrictEqual(actual, {
+      port: 3000,
+      trace: true,
+      experimental: true,
+      help: false,
+    });
+    assertType<boolean>(actual.trace);
+  });
+  test("hidden: help", () => {
+    const { help } = parseArgs([], opt, options);
+    strictEqual(
+      help(null),
+      [
+        "Options:",
+        "  -p, --port <number> Port to use (default:3000)",
+        "  --experimental      Experimental",
+        "  --help              Show this help",
+        "",
+      ].join("\n")
+    );
+    assertMatches(/\n  --trace +Trace internals\n/, help(null, true));
+    assertMatches(/\n  -x, --experimental +Experimental\n/, help(null, true));
+  });
+  test("hidden: --help-all", () => {
+    const { io, out } = ioWith();
+    expectExit(() => parseArgs(["--help-all"], opt, { io }));
+    strictEqual(out.code, 0);
+    assertMatches(/\n  --trace +Trace internals\n/, out.stdout);
+    assertMatches(
+      /\n  --help-all +Show help including hidden options\n/,
+      out.stdout
+    );
+    const { options: actual } = parseArgs([], opt, options);
+    strictEqual("helpAll" in actual, false);
+    const { io: io2, out: out2 } = ioWith();
+    const required = { ...opt, token: "--token:string!" };
+    expectExit(() => parseArgs(["--help-all"], required, { io: io2 }));
+    strictEqual(out2.code, 0);
+    assertMatches(/\n  --trace +Trace internals\n/, out2.stdout);
+  });
+  test("hidden: --help-all is not added", () => {
+    const noHelp = { trace: opt.trace };
+    expectError(ValidationError, () =>
+      parseArgs(["--help-all"], noHelp, options)
+    );
+    const noHidden = { help: opt.help };
+    expectError(ValidationError, () =>
+      parseArgs(["--help-all"], noHidden, options)
+    );
+    expectError(ValidationError, () =>
+      parseArgs(["--help-all"], opt, { ...options, handleHelp: false })
+    );
+  });
+  test("hidden: completion", () => {
+    const bash = makeCompletion("bash", "cmd", opt);
+    assertMatches(/compgen -W "-p --port --experimental --help"/, bash);
+    const fish = makeCompletion("fish", "cmd", opt);
+    strictEqual(/trace/.test(fish), false);
+  });
+  test("hidden: suggestions", () => {
+    const message = expectError(ValidationError, () =>
+      parseArgs(["--trac"], opt, options)
+    );
+    strictEqual(/did you mean/.test(message), false);
+  });
+  test("hidden: commands", () => {
+    const { io, out } = ioWith();
+    expectExit(() =>
+      parseCommands(
+        ["serve", "--help-all"],
+        { serve: { definitions: { trace: opt.trace } } } as const,
+        { globals: { help: opt.help } as const, io }
+      )
+    );
+    assertMatches(/\n  --trace +Trace internals\n/, out.stdout);
+  });
+  test("hidden: types", () => {
+    const check = (f: Function) => expectError(SettingsError, f);
+    // @ts-expect-error
+    check(() => parseArgs([], { a: "--a(hiden):boolean" } as const));
+    parseArgs([], { a: "--a( hidden ):boolean" } as const, options);
+    const dup = { a: "--trace(hidden):boolean", b: "--trace:string" } as const;
+    // @ts-expect-error
+    check(() => parseArgs([], dup));
+    const dup2 = {
+      a: "--a( hidden ),--c(deprecated):boolean",
+      b: "--b,--c:string",
+    } as const;
+    // @ts-expect-error
+    check(() => parseArgs([], dup2));
+  });
+}
+
+test("long names with hyphens", () => {
+  const opt = {
+    dryRun: "--dry-run:boolean=true",
+    traceInternal: "--trace-internal(hidden):string",
+  } as const;
+  const { options: actual } = parseArgs(
+    ["--no-dry-run", "--trace-internal=x"],
+    opt,
+    options
+  );
+  deepStrictEqual(actual, { dryRun: false, traceInternal: "x" });
+  for (const a of ["--a-:string", "--a--b:string", "---a:string"]) {
+    expectError(SettingsError, () => parseArgs([], { a }));
+  }
+  const check = (f: Function) => expectError(SettingsError, f);
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--a-:string" } as const));
+  // @ts-expect-error
+  check(() => parseArgs([], { a: "--a--b:string" } as const));
 });
+
+{
+  const de = {
+    required: "{name} ist erforderlich",
+    type_mismatch: "{name} muss {expected} sein",
+    type_number: "eine Zahl",
+    unknown_option: "unbekannte Option: {name}",
+    did_you_mean: "{message} (meinten Sie {suggestions}?)",
+    or: "{a} oder {b}",
+    error: "Fehler: {message}",
+    help_usage: "Aufruf:",
+    help_options: "Optionen:",
+    help_required: "(erforderlich)",
+    help_default: "(Standard: {value})",
+  };
+  const opt = {
+    port: "-p,--port:number=3000; Port",
+    token: "--token:string!; Token",
+  } as const;
+  test("messages: issues", () => {
+    const issues = expectIssues(() =>
+      parseArgs(["--port", "x", "--prot"], opt, { ...options, messages: de })
+    );
+    deepStrictEqual(
+      issues.map((issue) => issue.message),
+      [
+        "--port muss eine Zahl sein",
+        "--token ist erforderlich",
+        "unbekannte Option: --prot (meinten Sie --port?)",
+      ]
+    );
+  });
+  test("messages: help", () => {
+    const { help } = parseArgs(["--token", "t"], opt, {
+      ...options,
+      usage: "cmd",
+      messages: de,
+    });
+    strictEqual(
+      help(null),
+      "Aufruf: cmd\n" +
+        "Optionen:\n" +
+        "  -p, --port <number> Port (Standard: 3000)\n" +
+        "  --token <string>    Token (erforderlich)\n"
+    );
+  });
+  test("messages: error output", () => {
+    const { io, out } = ioWith();
+    expectExit(() => parseArgs([], opt, { io, messages: de }));
+    assertMatches(/^Fehler: --token ist erforderlich\n/, out.stderr);
+  });
+  test("messages: commands", () => {
+    const issues = expectIssues(() =>
+      parseCommands(
+        ["deploy"],
+        { serve: { definitions: {} } },
+        {
+          ...options,
+          messages: { unknown_command: "unbekannter Befehl: {name}" },
+        }
+      )
+    );
+    strictEqual(issues[0].message, "unbekannter Befehl: deploy");
+  });
+  test("messages: sources", () => {
+    const messages = {
+      ...de,
+      source_env: "Umgebungsvariable {env}",
+      source_config: "{name} in {path}",
+    };
+    const issues = expectIssues(() =>
+      parseArgs([], { port: "--port:number @PORT" } as const, {
+        ...options,
+        env: { PORT: "x" },
+        messages,
+      })
+    );
+    strictEqual(
+      issues[0].message,
+      "Umgebungsvariable PORT muss eine Zahl sein"
+    );
+  });
+  test("messages: default values", () => {
+    const messages = {
+      ...de,
+      type_mismatch_value: "{name} muss {expected} sein: {value}",
+      default_value: "Der Standardwert von {name}",
+      default_value_parse: "Ungültiger Standardwert von {name}: {value}",
+    };
+    const check = (definitions: Record<string, string>) =>
+      expectError(SettingsError, () =>
+        parseArgs([], definitions, { ...options, messages })
+      );
+    strictEqual(
+      check({ port: '--port:number="x"' }),
+      'Der Standardwert von port muss eine Zahl sein: "x"'
+    );
+    strictEqual(
+      check({ port: "--port:number=x" }),
+      "Ungültiger Standardwert von port: x"
+    );
+    strictEqual(
+      check({ port: "--port:number{min:1}=0" }),
+      "Der Standardwert von port should be at least 1: 0"
+    );
+  });
+  test("messages: defaults", () => {
+    strictEqual(defaultMessages.required, "{name} is required");
+    const message = expectError(ValidationError, () =>
+      parseArgs([], opt, { ...options, messages: {} })
+    );
+    strictEqual(message, "--token is required");
+  });
+}